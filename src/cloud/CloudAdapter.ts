@@ -11,6 +11,8 @@ export interface UploadMetadata {
     mimetype: string;
     size: number;
     folder?: string; // Optional target folder (e.g. from watchTarget)
+    fixedName?: boolean; // filename comes from fileNameTemplate - use it as the key / public id
+    replaceId?: string; // cloudPublicId of an earlier upload to overwrite (the source was changed)
 }
 
 export interface CloudResult {
@@ -41,6 +43,11 @@ export abstract class CloudAdapter {
      */
     abstract upload(data: Buffer | Readable, metadata: UploadMetadata): Promise<CloudResult>;
 
+    /**
+     * Whether an object with this metadata's key already exists (for collisionPolicy)
+     */
+    abstract exists(metadata: UploadMetadata): Promise<boolean>;
+
     /**
      * Delete file from cloud provider
      * @param publicId - File identifier
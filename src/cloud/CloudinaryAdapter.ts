@@ -38,35 +38,83 @@ export class CloudinaryAdapter extends CloudAdapter {
         }
     }
 
+    private getResourceType(metadata: UploadMetadata): string {
+        if (!metadata?.mimetype) return 'auto';
+
+        const mime = metadata.mimetype.toLowerCase();
+        if (mime.startsWith('image/')) {
+            return 'image';
+        } else if (mime.startsWith('video/')) {
+            return 'video';
+        }
+        return 'raw';
+    }
+
+    private getFolder(metadata: UploadMetadata): string {
+        return metadata.folder || this.config.folder || 'upfly';
+    }
+
+    /**
+     * Public id for a templated name (raw files keep their extension in the id)
+     */
+    private getFixedPublicId(metadata: UploadMetadata): string {
+        const { name, ext } = path.parse(metadata.filename);
+        return this.getResourceType(metadata) === 'raw' ? name + ext : name;
+    }
+
+    async exists(metadata: UploadMetadata): Promise<boolean> {
+        // Without a fixed name Cloudinary generates a unique public id, which can't collide
+        if (!metadata.fixedName) return false;
+
+        try {
+            await this.cloudinary.api.resource(`${this.getFolder(metadata)}/${this.getFixedPublicId(metadata)}`, {
+                resource_type: this.getResourceType(metadata)
+            });
+            return true;
+        } catch (error: any) {
+            if (error.error?.http_code === 404 || error.http_code === 404) {
+                return false;
+            }
+            throw new Error(`Cloudinary lookup failed: ${error.error?.message ?? error.message}`);
+        }
+    }
+
     async upload(data: Buffer | Readable, metadata: UploadMetadata): Promise<CloudResult> {
         return new Promise((resolve, reject) => {
-            let resourceType = 'auto';
-
-            if (metadata?.mimetype) {
-                const mime = metadata.mimetype.toLowerCase();
-                if (mime.startsWith('image/')) {
-                    resourceType = 'image';
-                } else if (mime.startsWith('video/')) {
-                    resourceType = 'video';
-                } else {
-                    resourceType = 'raw';
-                }
-            }
+            const resourceType = this.getResourceType(metadata);
 
             const filename = metadata.originalname || metadata.filename || 'file';
             const ext = path.extname(filename);
             const baseName = path.parse(filename).name;
-            const folderPath = metadata.folder || this.config.folder || 'upfly';
-
-            const uploadOptions: Record<string, any> = {
-                folder: folderPath,
-                resource_type: resourceType,
-                use_filename: false,
-                unique_filename: true,
-                overwrite: false,
-                public_id: resourceType === 'raw' ? baseName + ext : undefined,
-                ...this.config.uploadOptions
-            };
+            const folderPath = this.getFolder(metadata);
+
+            // A re-upload replaces the earlier asset (its public id already includes the folder).
+            // Templated names are used as-is; collisions were already handled by collisionPolicy
+            const uploadOptions: Record<string, any> = metadata.replaceId
+                ? {
+                    resource_type: resourceType,
+                    public_id: metadata.replaceId,
+                    overwrite: true,
+                    invalidate: true,
+                    ...this.config.uploadOptions
+                }
+                : metadata.fixedName
+                ? {
+                    folder: folderPath,
+                    resource_type: resourceType,
+                    public_id: this.getFixedPublicId(metadata),
+                    overwrite: true,
+                    ...this.config.uploadOptions
+                }
+                : {
+                    folder: folderPath,
+                    resource_type: resourceType,
+                    use_filename: false,
+                    unique_filename: true,
+                    overwrite: false,
+                    public_id: resourceType === 'raw' ? baseName + ext : undefined,
+                    ...this.config.uploadOptions
+                };
 
             const uploadStream = this.cloudinary.uploader.upload_stream(
                 uploadOptions,
@@ -48,14 +48,30 @@ export class GCSAdapter extends CloudAdapter {
         }
     }
 
+    private getObjectName(metadata: UploadMetadata): string {
+        if (metadata.replaceId) return metadata.replaceId;
+
+        const filename = metadata.filename || metadata.originalname || 'file';
+
+        // Prepend folder if provided
+        if (metadata.folder) {
+            return `${metadata.folder}/${filename}`.replace(/\/+/g, '/'); // Normalize slashes
+        }
+        return filename;
+    }
+
+    async exists(metadata: UploadMetadata): Promise<boolean> {
+        try {
+            const [exists] = await this.bucket.file(this.getObjectName(metadata)).exists();
+            return exists;
+        } catch (error: any) {
+            throw new Error(`GCS lookup failed: ${error.message}`);
+        }
+    }
+
     async upload(data: Buffer | Readable, metadata: UploadMetadata): Promise<CloudResult> {
         try {
-            let filename = metadata.filename || metadata.originalname || 'file';
-            
-            // Prepend folder if provided
-            if (metadata.folder) {
-                filename = `${metadata.folder}/${filename}`.replace(/\/+/g, '/'); // Normalize slashes
-            }
+            const filename = this.getObjectName(metadata);
 
             const file = this.bucket.file(filename);
 
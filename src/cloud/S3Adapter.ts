@@ -43,14 +43,34 @@ export class S3Adapter extends CloudAdapter {
         }
     }
 
-    async upload(data: Buffer | Readable, metadata: UploadMetadata): Promise<CloudResult> {
+    private getKey(metadata: UploadMetadata): string {
+        if (metadata.replaceId) return metadata.replaceId;
+
+        const key = metadata.filename || metadata.originalname || 'file';
+
+        // Prepend folder if provided
+        if (metadata.folder) {
+            return `${metadata.folder}/${key}`.replace(/\/+/g, '/'); // Normalize slashes
+        }
+        return key;
+    }
+
+    async exists(metadata: UploadMetadata): Promise<boolean> {
         try {
-            let key = metadata.filename || metadata.originalname || 'file';
-            
-            // Prepend folder if provided
-            if (metadata.folder) {
-                key = `${metadata.folder}/${key}`.replace(/\/+/g, '/'); // Normalize slashes
+            const { HeadObjectCommand } = require('@aws-sdk/client-s3');
+            await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.getKey(metadata) }));
+            return true;
+        } catch (error: any) {
+            if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+                return false;
             }
+            throw new Error(`S3 lookup failed: ${error.message}`);
+        }
+    }
+
+    async upload(data: Buffer | Readable, metadata: UploadMetadata): Promise<CloudResult> {
+        try {
+            const key = this.getKey(metadata);
 
             const stream = Buffer.isBuffer(data) ? Readable.from(data) : data;
 
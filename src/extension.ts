@@ -1,21 +1,43 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as fs from 'fs';
 import { WatcherService } from './services/WatcherService';
-import { ConverterService } from './services/ConverterService';
+import { ConverterService, ConversionOptions } from './services/ConverterService';
 import { ConfigService } from './services/ConfigService';
 import { globalQueue } from './services/QueueService';
+import { encoderPool } from './services/EncoderPool';
+import { ComparePanel } from './views/ComparePanel';
+import { HistoryService, HistoryEntry } from './services/HistoryService';
+import { HistoryTreeProvider } from './views/HistoryTreeProvider';
+import { IconSetService } from './services/IconSetService';
+import { SpriteService } from './services/SpriteService';
+import { DuplicateService } from './services/DuplicateService';
+import { DuplicateTreeProvider, DuplicateNode } from './views/DuplicateTreeProvider';
+import { OptimizeService, OptimizeItem } from './services/OptimizeService';
+import { WorkspaceService } from './services/WorkspaceService';
 
 let watcherService: WatcherService;
 let configService: ConfigService;
 
+/**
+ * Size the encoder pool from the settings. The queue runs twice as many files as there are
+ * workers so reads and writes overlap with encoding.
+ */
+function configureEncoding() {
+    const config = ConfigService.getInstance();
+    encoderPool.configure(config.get<number | undefined>('workerThreads'), config.get<number | undefined>('maxDecodeMemoryMB'));
+    globalQueue.setConcurrency(encoderPool.concurrency * 2);
+}
+
 type ImageFormat = 'webp' | 'png' | 'jpeg' | 'avif';
 
-async function convertFiles(uris: vscode.Uri[], formatOverride?: ImageFormat, isCompression: boolean = false, forceInPlace: boolean = false) {
+async function convertFiles(uris: vscode.Uri[], formatOverride?: ImageFormat, isCompression: boolean = false, forceInPlace: boolean = false, preset?: string) {
     const config = ConfigService.getInstance();
 
-    // Check config validity before processing (JIT error)
-    if (!config.isConfigValid) {
-        config.showConfigErrors();
+    // Check config validity before processing (JIT error), for every workspace folder involved
+    const invalid = uris.find(uri => !config.isConfigValid(uri.fsPath));
+    if (invalid) {
+        config.showConfigErrors(invalid.fsPath);
         return;
     }
 
@@ -24,8 +46,10 @@ async function convertFiles(uris: vscode.Uri[], formatOverride?: ImageFormat, is
         const fileExt = path.extname(filePath).toLowerCase().replace('.', '');
         const normalizedExt = fileExt === 'jpg' ? 'jpeg' : fileExt;
         
-        // Get per-folder format/quality settings
-        const pathOptions = config.getOptionsForPath(filePath);
+        // Get per-folder settings (format, quality, resize...), or the chosen preset's
+        // Responsive variants are a watch-target feature, manual commands write a single file
+        const { widths, keepFullSize, ...pathOptions } =
+            (preset !== undefined && config.getPresetOptions(preset, filePath)) || config.getOptionsForPath(filePath);
         
         const format = isCompression 
             ? (normalizedExt as ImageFormat)
@@ -33,6 +57,29 @@ async function convertFiles(uris: vscode.Uri[], formatOverride?: ImageFormat, is
 
         const quality = isCompression ? 60 : pathOptions.quality;
 
+        // Storage follows the file's watch target (or the global settings)
+        const storage = config.getStorageOptions(filePath);
+        let options: ConversionOptions = {
+            ...pathOptions,
+            ...storage,
+            format: format,
+            quality: quality,
+            storageMode: forceInPlace ? 'in-place' : storage.storageMode,
+            inPlaceKeepOriginal: forceInPlace ? true : storage.inPlaceKeepOriginal,
+            isCompression: isCompression
+        };
+
+        // Optional before/after preview (single selection only)
+        if (uris.length === 1 && config.get<boolean>('previewManualConversions', filePath)) {
+            if (!(await ConverterService.isValidImage(filePath))) {
+                vscode.window.showErrorMessage(`Upfly: ${path.basename(filePath)} is not a supported image.`);
+                return;
+            }
+            const chosenQuality = await ComparePanel.show(filePath, options);
+            if (chosenQuality === undefined) return; // Cancelled
+            options = { ...options, quality: chosenQuality, targetSize: undefined };
+        }
+
         globalQueue.add(async () => {
             const isValid = await ConverterService.isValidImage(filePath);
             if (!isValid) {
@@ -40,19 +87,241 @@ async function convertFiles(uris: vscode.Uri[], formatOverride?: ImageFormat, is
                 return;
             }
 
-            await ConverterService.convertFile(filePath, {
-                format: format,
-                quality: quality,
-                storageMode: forceInPlace ? 'in-place' : config.get('storageMode'),
-                outputDirectory: config.get('outputDirectory'),
-                originalDirectory: config.get('originalDirectory'),
-                inPlaceKeepOriginal: forceInPlace ? true : config.get('inPlaceKeepOriginal'),
-                isCompression: isCompression
-            });
+            await ConverterService.convertFile(filePath, options);
         });
     }
 }
 
+/**
+ * Quick pick of the presets in the upfly.config.json owning `filePath`. Returns the chosen name, or undefined if cancelled.
+ */
+async function pickPreset(filePath: string): Promise<string | undefined> {
+    const config = ConfigService.getInstance();
+    const names = config.getPresetNames(filePath);
+    if (names.length === 0) {
+        vscode.window.showInformationMessage('Upfly: No presets defined. Add a "presets" map to upfly.config.json.');
+        return undefined;
+    }
+
+    const items = names.map(name => {
+        const options = config.getPresetOptions(name, filePath)!;
+        const details = [options.format, options.quality === 'auto' ? 'auto quality' : `q${options.quality}`];
+        if (options.maxWidth || options.maxHeight) {
+            details.push(`max ${options.maxWidth ?? '…'}×${options.maxHeight ?? '…'}px`);
+        }
+        if (options.targetSize !== undefined) details.push(`≤ ${options.targetSize}`);
+        if (options.metadata) details.push(`metadata: ${options.metadata}`);
+        return { label: name, description: details.join(' · ') };
+    });
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Convert with preset' });
+    return picked?.label;
+}
+
+async function generateIconSet(uri: vscode.Uri) {
+    const sourceName = path.basename(uri.fsPath);
+    const problem = await IconSetService.validateSource(uri.fsPath);
+    if (problem) {
+        vscode.window.showErrorMessage(`Upfly: Cannot generate icons from ${sourceName}: ${problem}.`);
+        return;
+    }
+
+    const picked = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: vscode.Uri.file(path.dirname(uri.fsPath)),
+        openLabel: 'Write Icons Here'
+    });
+    if (!picked || picked.length === 0) return;
+    const outputDir = picked[0].fsPath;
+
+    const existing = IconSetService.getOutputNames().filter(name => fs.existsSync(path.join(outputDir, name)));
+    if (existing.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            `Upfly: ${existing.join(', ')} already exist in ${path.basename(outputDir)}. Overwrite?`,
+            { modal: true },
+            'Overwrite'
+        );
+        if (choice !== 'Overwrite') return;
+    }
+
+    try {
+        const result = await IconSetService.generate(uri.fsPath, outputDir);
+        if (result.upscaled) {
+            vscode.window.showWarningMessage(`Upfly: ${sourceName} is smaller than 512×512, the large icons were upscaled. Use a bigger PNG or an SVG for sharp results.`);
+        }
+        const action = await vscode.window.showInformationMessage(
+            `Upfly: Generated ${result.files.length} icon files in ${path.basename(outputDir)}.`,
+            'Copy HTML Tags',
+            'Open Manifest'
+        );
+        if (action === 'Copy HTML Tags') {
+            await vscode.env.clipboard.writeText(result.htmlSnippet);
+        } else if (action === 'Open Manifest') {
+            await vscode.window.showTextDocument(vscode.Uri.file(result.manifestPath));
+        }
+    } catch (error: any) {
+        console.error('Upfly: Icon set generation failed', error);
+        vscode.window.showErrorMessage(`Upfly: Icon set generation failed: ${error.message}`);
+    }
+}
+
+async function generateSprite(folderUri: vscode.Uri) {
+    const config = ConfigService.getInstance();
+    if (!config.isConfigValid(folderUri.fsPath)) {
+        config.showConfigErrors(folderUri.fsPath);
+        return;
+    }
+
+    // Configured sprite folders use their settings; any other folder gets the defaults
+    const sprite = config.getSpriteForFolder(folderUri.fsPath) ?? {};
+    const folderName = path.basename(folderUri.fsPath);
+
+    try {
+        const result = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Upfly: Packing ${folderName}...` },
+            () => SpriteService.generate(folderUri.fsPath, sprite)
+        );
+        vscode.window.showInformationMessage(
+            `Upfly: Packed ${result.count} images into ${path.basename(result.atlasPath)} (${result.width}×${result.height}) ` +
+            `with ${path.basename(result.jsonPath)} and ${path.basename(result.cssPath)}.`
+        );
+    } catch (error: any) {
+        console.error('Upfly: Sprite sheet failed', error);
+        vscode.window.showErrorMessage(`Upfly: Sprite sheet for ${folderName} failed: ${error.message}`);
+    }
+}
+
+async function findDuplicates(provider: DuplicateTreeProvider) {
+    const groups = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Upfly: Looking for duplicate images', cancellable: true },
+        (progress, token) => DuplicateService.findDuplicates(progress, token)
+    );
+    if (!groups) return; // Cancelled
+
+    provider.setGroups(groups);
+    if (groups.length === 0) {
+        vscode.window.showInformationMessage('Upfly: No duplicate images found.');
+        return;
+    }
+    const copies = groups.reduce((total, group) => total + group.files.length - 1, 0);
+    vscode.window.showInformationMessage(`Upfly: Found ${groups.length} groups of duplicates (${copies} extra copies).`);
+    vscode.commands.executeCommand('upfly.duplicates.focus');
+}
+
+/**
+ * Bulk-optimize existing images: the watch targets, or one folder (from the Explorer or picked).
+ * A dry run writes a report first and offers to apply it.
+ */
+async function optimizeFolder(folderUri?: vscode.Uri) {
+    const config = ConfigService.getInstance();
+
+    if (!folderUri) {
+        const scope = await vscode.window.showQuickPick([
+            { label: 'Watch Targets', description: 'Every image under the watch targets of all workspace folders' },
+            { label: 'Choose Folder…', description: 'Any workspace folder, with the settings of the target it belongs to' }
+        ], { placeHolder: 'What should Upfly optimize?' });
+        if (!scope) return;
+
+        if (scope.label === 'Choose Folder…') {
+            const picked = await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                canSelectMany: false,
+                defaultUri: WorkspaceService.getFolders()[0]?.uri,
+                openLabel: 'Optimize'
+            });
+            if (!picked || picked.length === 0) return;
+            folderUri = picked[0];
+        }
+    }
+
+    if (folderUri && !vscode.workspace.getWorkspaceFolder(folderUri)) {
+        vscode.window.showErrorMessage('Upfly: Choose a folder inside the workspace.');
+        return;
+    }
+
+    // Every workspace folder whose settings will be used has to be valid
+    const roots = folderUri ? [folderUri.fsPath] : WorkspaceService.getFolders().map(folder => folder.uri.fsPath);
+    const invalid = roots.find(root => !config.isConfigValid(root));
+    if (invalid) {
+        config.showConfigErrors(invalid);
+        return;
+    }
+
+    const mode = await vscode.window.showQuickPick([
+        { label: 'Dry Run', description: 'Report what would change without modifying anything' },
+        { label: 'Optimize Now', description: 'Convert the files right away' }
+    ], { placeHolder: 'Optimize existing local images (cloud upload targets are skipped)' });
+    if (!mode) return;
+
+    const items = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Upfly: Scanning images', cancellable: true },
+        (progress, token) => OptimizeService.scan(folderUri?.fsPath, progress, token)
+    );
+    if (!items) return; // Cancelled
+
+    let planned = items.filter(item => item.action !== 'skip');
+    if (planned.length === 0) {
+        vscode.window.showInformationMessage(`Upfly: Nothing to optimize (${items.length} images scanned).`);
+        return;
+    }
+
+    if (mode.label === 'Dry Run') {
+        const completed = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Upfly: Estimating output sizes', cancellable: true },
+            (progress, token) => OptimizeService.estimate(planned, progress, token)
+        );
+        if (!completed) return;
+
+        const scope = folderUri ? vscode.workspace.asRelativePath(folderUri) : 'Watch targets';
+        const report = await vscode.workspace.openTextDocument({ language: 'markdown', content: OptimizeService.toMarkdown(items, scope) });
+        await vscode.window.showTextDocument(report, { preview: false });
+
+        // The estimate drops files the size guard would leave untouched
+        planned = planned.filter(item => item.action !== 'skip');
+        if (planned.length === 0) return;
+
+        const before = planned.reduce((total, item) => total + item.size, 0);
+        const after = planned.reduce((total, item) => total + (item.estimatedSize ?? item.size), 0);
+        const choice = await vscode.window.showInformationMessage(
+            `Upfly: ${planned.length} files can be optimized (${ConverterService.formatBytes(before)} → ~${ConverterService.formatBytes(after)}).`,
+            'Optimize Now'
+        );
+        if (choice !== 'Optimize Now') return;
+    }
+
+    await runOptimize(planned);
+}
+
+async function runOptimize(items: OptimizeItem[]) {
+    const summary = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Upfly: Optimizing images', cancellable: true },
+        (progress, token) => OptimizeService.run(items, progress, token)
+    );
+    const unchanged = summary.unchanged > 0 ? `, ${summary.unchanged} left unchanged` : '';
+    const cancelled = summary.cancelled ? ' (cancelled)' : '';
+    vscode.window.showInformationMessage(`Upfly: Optimized ${summary.optimized} of ${items.length} files${unchanged}${cancelled}.`);
+}
+
+async function deleteDuplicates(provider: DuplicateTreeProvider, filePaths: string[], prompt: string) {
+    const choice = await vscode.window.showWarningMessage(prompt, { modal: true }, 'Move to Trash');
+    if (choice !== 'Move to Trash') return;
+
+    const deleted: string[] = [];
+    for (const filePath of filePaths) {
+        try {
+            await vscode.workspace.fs.delete(vscode.Uri.file(filePath), { useTrash: true });
+            DuplicateService.forget(filePath);
+            deleted.push(filePath);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Upfly: Could not delete ${path.basename(filePath)}: ${error.message}`);
+        }
+    }
+    provider.removeFiles(deleted);
+}
+
 export function activate(context: vscode.ExtensionContext) {
     ConverterService.cleanupTempDir();
 
@@ -102,6 +371,16 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    const convertWithPreset = vscode.commands.registerCommand('upfly.convertWithPreset', async (uri: vscode.Uri, uris?: vscode.Uri[]) => {
+        const files = uris && uris.length > 0 ? uris : (uri ? [uri] : []);
+        if (files.length === 0) return;
+
+        const preset = await pickPreset(files[0].fsPath);
+        if (preset !== undefined) {
+            await convertFiles(files, undefined, false, true, preset); // Manual = in-place
+        }
+    });
+
     const compressCmd = vscode.commands.registerCommand('upfly.compress', async (uri: vscode.Uri, uris?: vscode.Uri[]) => {
         const files = uris && uris.length > 0 ? uris : (uri ? [uri] : []);
         if (files.length > 0) {
@@ -109,14 +388,80 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
-    context.subscriptions.push(configService.onDidChangeConfig(() => {
-        console.log('Upfly: Config changed, reloading watcher...');
-        watcherService.initialize();
+    const iconSetCmd = vscode.commands.registerCommand('upfly.generateIconSet', async (uri: vscode.Uri) => {
+        if (uri && uri.fsPath) {
+            await generateIconSet(uri);
+        } else {
+            vscode.window.showErrorMessage('Upfly: No file selected.');
+        }
+    });
+
+    const spriteCmd = vscode.commands.registerCommand('upfly.generateSprite', async (uri: vscode.Uri) => {
+        if (uri && uri.fsPath) {
+            await generateSprite(uri);
+        } else {
+            vscode.window.showErrorMessage('Upfly: No folder selected.');
+        }
+    });
+
+    // Duplicate finder
+    const duplicateProvider = new DuplicateTreeProvider();
+    context.subscriptions.push(duplicateProvider);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider('upfly.duplicates', duplicateProvider));
+    context.subscriptions.push(vscode.commands.registerCommand('upfly.optimizeFolder', async (uri?: vscode.Uri) => {
+        await optimizeFolder(uri);
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('upfly.findDuplicates', async () => {
+        await findDuplicates(duplicateProvider);
+    }));
+    context.subscriptions.push(vscode.commands.registerCommand('upfly.deleteDuplicate', async (node?: DuplicateNode) => {
+        if (node?.kind !== 'file') return;
+        await deleteDuplicates(duplicateProvider, [node.file.path], `Move ${path.basename(node.file.path)} to the trash?`);
+    }));
+    context.subscriptions.push(vscode.commands.registerCommand('upfly.keepDuplicate', async (node?: DuplicateNode) => {
+        if (node?.kind !== 'file') return;
+        const others = node.group.files.filter(file => file.path !== node.file.path).map(file => file.path);
+        await deleteDuplicates(
+            duplicateProvider,
+            others,
+            `Keep ${path.basename(node.file.path)} and move ${others.map(p => path.basename(p)).join(', ')} to the trash?`
+        );
+    }));
+
+    // Conversion history (undo / restore)
+    HistoryService.prune();
+    const historyProvider = new HistoryTreeProvider();
+    context.subscriptions.push(historyProvider);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider('upfly.history', historyProvider));
+    context.subscriptions.push(vscode.commands.registerCommand('upfly.undoLastConversion', async () => {
+        await HistoryService.undoLast();
+    }));
+    context.subscriptions.push(vscode.commands.registerCommand('upfly.restoreConversion', async (entry?: HistoryEntry) => {
+        if (entry?.id) {
+            await HistoryService.restore(entry.id);
+        }
+    }));
+    context.subscriptions.push(vscode.commands.registerCommand('upfly.refreshHistory', () => historyProvider.refresh()));
+
+    configureEncoding();
+    context.subscriptions.push({ dispose: () => encoderPool.dispose() });
+
+    context.subscriptions.push(configService.onDidChangeConfig(folder => {
+        console.log(`Upfly: Config of ${folder.name} changed, reloading its watchers...`);
+        configureEncoding();
+        watcherService.reloadFolder(folder);
     }));
 
     context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
         if (e.affectsConfiguration('upfly')) {
-            watcherService.initialize(); 
+            configureEncoding();
+            // Settings can differ per folder - only reload the folders they apply to
+            for (const folder of vscode.workspace.workspaceFolders ?? []) {
+                if (e.affectsConfiguration('upfly', folder.uri)) {
+                    watcherService.reloadFolder(folder);
+                }
+            }
         }
     }));
 
@@ -126,7 +471,10 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(convertToAvif);
     context.subscriptions.push(convertToJpeg);
     context.subscriptions.push(convertToPng);
+    context.subscriptions.push(convertWithPreset);
     context.subscriptions.push(compressCmd);
+    context.subscriptions.push(iconSetCmd);
+    context.subscriptions.push(spriteCmd);
     context.subscriptions.push({ dispose: () => watcherService.dispose() });
     context.subscriptions.push({ dispose: () => configService.dispose() });
 
@@ -6,9 +6,11 @@
 
 import * as path from 'path';
 import { Readable } from 'stream';
-import { createCloudAdapter, CloudProvider, CloudResult, UploadMetadata } from '../cloud';
+import { createCloudAdapter, CloudAdapter, CloudProvider, CloudResult, UploadMetadata } from '../cloud';
 import { ResponseService, UploadRecord } from './ResponseService';
 import { cloudQueue } from './CloudQueueService';
+import { Placeholder } from './PlaceholderService';
+import { CollisionPolicy } from './ConfigService';
 
 export interface CloudUploadConfig {
     provider: CloudProvider;
@@ -23,10 +25,21 @@ export interface UploadTask {
     originalFilename: string;
     cloudConfig: CloudUploadConfig;
     folder?: string;
+    variantWidth?: number;  // Set for responsive variants (e.g. 640 for hero-640w.webp)
+    quality?: number;  // Encoder quality used (reported when chosen by targetSize or 'auto')
+    ssim?: number;  // Similarity score when quality is 'auto'
+    placeholder?: Placeholder;  // Size + blur placeholder, stored with the upload record
+    cloudFilename?: string;  // Key name from fileNameTemplate. Default: <original name>.<format>
+    collisionPolicy?: CollisionPolicy;  // Default: 'overwrite' (the provider's own behavior)
+    replaceId?: string;  // cloudPublicId of the previous upload of this file - overwritten in place
+    supersedesId?: string;  // cloudPublicId of the previous upload, deleted once this one succeeds ({hash} keys)
+    sourceHash?: string;  // Content hash of the local source, stored so unchanged saves can be skipped
     onComplete?: () => void;
 }
 
 export class CloudService {
+    private static readonly MAX_SUFFIX = 100;
+
     /**
      * Queue a file for cloud upload
      */
@@ -41,6 +54,9 @@ export class CloudService {
                 const record: UploadRecord = {
                     localPath: task.localPath,
                     convertedFormat: task.convertedFormat,
+                    variantWidth: task.variantWidth,
+                    quality: task.quality,
+                    ssim: task.ssim,
                     status: 'failed',
                     error: error.message,
                     failedAt: new Date().toISOString()
@@ -51,22 +67,28 @@ export class CloudService {
     }
 
     private static async performUpload(task: UploadTask): Promise<void> {
-        const { buffer, localPath, convertedFormat, originalFilename, cloudConfig, folder } = task;
+        const { buffer, localPath, convertedFormat, originalFilename, cloudConfig, folder, variantWidth, quality, ssim, placeholder } = task;
 
         // Create adapter
         const adapter = createCloudAdapter(cloudConfig.provider, cloudConfig.config);
 
         // Build filename with converted extension
         const baseName = path.parse(originalFilename).name;
-        const cloudFilename = `${baseName}.${convertedFormat}`;
 
         const metadata: UploadMetadata = {
-            filename: cloudFilename,
+            filename: task.cloudFilename ?? `${baseName}.${convertedFormat}`,
             originalname: originalFilename,
             mimetype: this.getMimeType(convertedFormat),
             size: buffer.length,
-            folder: folder
+            folder: folder,
+            fixedName: task.cloudFilename !== undefined,
+            replaceId: task.replaceId
         };
+        // Replacing keeps the earlier key, so there is no collision to resolve
+        if (!task.replaceId) {
+            metadata.filename = await this.resolveCollision(adapter, metadata, task.collisionPolicy ?? 'overwrite');
+        }
+        const cloudFilename = task.replaceId ?? metadata.filename;
 
         // Upload
         const result = await adapter.upload(buffer, metadata);
@@ -75,6 +97,11 @@ export class CloudService {
         const record: UploadRecord = {
             localPath,
             convertedFormat,
+            variantWidth,
+            quality,
+            ssim,
+            placeholder,
+            sourceHash: task.sourceHash,
             cloudUrl: result.cloudUrl,
             cloudPublicId: result.cloudPublicId,
             provider: cloudConfig.provider,
@@ -85,6 +112,41 @@ export class CloudService {
         ResponseService.append(record);
 
         console.log(`Upfly Cloud: Uploaded ${cloudFilename} → ${result.cloudUrl}`);
+
+        // The new content got a new key - retire the object it replaces (a failed delete only leaves it behind)
+        if (task.supersedesId && task.supersedesId !== result.cloudPublicId) {
+            try {
+                await adapter.delete(task.supersedesId);
+                console.log(`Upfly Cloud: Deleted superseded ${task.supersedesId}`);
+            } catch (error) {
+                console.error(`Upfly Cloud: Could not delete superseded ${task.supersedesId}`, error);
+            }
+        }
+    }
+
+    /**
+     * Apply collisionPolicy to the key: 'suffix' picks name_copyN.ext, 'fail' rejects the upload
+     */
+    private static async resolveCollision(
+        adapter: CloudAdapter,
+        metadata: UploadMetadata,
+        policy: CollisionPolicy
+    ): Promise<string> {
+        if (policy === 'overwrite' || !(await adapter.exists(metadata))) {
+            return metadata.filename;
+        }
+        if (policy === 'fail') {
+            throw new Error(`${metadata.filename} already exists in the bucket (collisionPolicy "fail")`);
+        }
+
+        const { name, ext } = path.parse(metadata.filename);
+        for (let i = 1; i <= this.MAX_SUFFIX; i++) {
+            const filename = `${name}_copy${i}${ext}`;
+            if (!(await adapter.exists({ ...metadata, filename }))) {
+                return filename;
+            }
+        }
+        throw new Error(`Too many copies exist for ${metadata.filename}`);
     }
 
     private static getMimeType(format: string): string {
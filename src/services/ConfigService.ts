@@ -2,12 +2,98 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { parse } from 'jsonc-parser';
+import { parseByteSize } from './EncoderService';
+import { FileNameService } from './FileNameService';
+import { IgnoreService, IgnoreRule } from './IgnoreService';
+import { WorkspaceService } from './WorkspaceService';
+
+export type ImageFormat = 'webp' | 'png' | 'jpeg' | 'avif';
+export type FitMode = 'inside' | 'cover' | 'contain';
+export type CropPosition = 'centre' | 'attention' | 'entropy';
+export type MetadataPolicy = 'strip' | 'keep' | 'keep-icc-only';
+export type SizePolicy = 'keep-original' | 'keep-smaller' | 'always-convert';
+export type OversizePolicy = 'skip' | 'downscale-to-fit' | 'warn';
+export type CollisionPolicy = 'overwrite' | 'suffix' | 'fail';
+export type ColorSpace = 'srgb' | 'keep' | 'p3';
+export type StorageMode = 'in-place' | 'separate-output' | 'separate-original';
+
+// Format-specific encoder settings, passed straight to sharp's webp()/avif()/jpeg()/png()
+export interface EncoderOptions {
+    webp?: { lossless?: boolean; nearLossless?: boolean; smartSubsample?: boolean; alphaQuality?: number; effort?: number };
+    avif?: { lossless?: boolean; effort?: number; chromaSubsampling?: '4:4:4' | '4:2:0' };
+    jpeg?: { progressive?: boolean; mozjpeg?: boolean; optimiseCoding?: boolean; chromaSubsampling?: '4:4:4' | '4:2:0' };
+    png?: { palette?: boolean; colors?: number; dither?: number; compressionLevel?: number; effort?: number; progressive?: boolean };
+}
+
+export type WatermarkPosition =
+    'top-left' | 'top' | 'top-right' | 'left' | 'centre' | 'right' | 'bottom-left' | 'bottom' | 'bottom-right';
+
+// Logo or text composited onto every output of a target. Sizes are fractions of the output width.
+export interface WatermarkOptions {
+    image?: string;  // Path to a logo (PNG with alpha recommended), relative to the workspace root
+    text?: string;  // Alternative to image, e.g. "© ACME"
+    font?: string;  // Pango font for text, e.g. "sans bold". Default: 'sans bold'
+    color?: string;  // Text color. Default: '#ffffff'
+    position?: WatermarkPosition;  // Default: 'bottom-right'
+    opacity?: number;  // 0-1. Default: 0.5
+    scale?: number;  // Watermark width as a fraction of the output width. Default: 0.2
+    margin?: number;  // Distance from the edges as a fraction of the output width. Default: 0.02
+}
 
 // Per-folder watch configuration
 export interface WatchTarget {
     path: string;
-    format: 'webp' | 'png' | 'jpeg' | 'avif';
-    quality?: number;  // Default: 80
+    format: ImageFormat;
+    quality?: number | 'auto';  // Default: 80. 'auto' picks the lowest quality that stays above ssimThreshold
+    ssimThreshold?: number;  // Default: 0.97. Similarity to the source required by quality 'auto'
+    widths?: number[];  // Responsive variants, e.g. [320, 640, 1280] -> hero-640w.webp
+    keepFullSize?: boolean;  // Default: true. Set false to write only the width variants
+    maxWidth?: number;  // Downscale only - smaller images are never enlarged
+    maxHeight?: number;
+    fit?: FitMode;  // Default: 'inside'. 'cover' and 'contain' need both maxWidth and maxHeight
+    position?: CropPosition;  // Crop anchor for 'cover'/'contain'. Default: 'centre'
+    metadata?: MetadataPolicy;  // Default: 'strip' (removes EXIF/GPS). Orientation is always applied
+    background?: string;  // Color transparent pixels are flattened onto for JPEG output, e.g. "#ffffff"
+    colorspace?: ColorSpace;  // Default: 'srgb' (wide-gamut sources are converted). 'keep' leaves the source profile
+    grayscale?: boolean;  // Default: false
+    encoderOptions?: EncoderOptions;  // Only the block matching the output format is used
+    targetSize?: string | number;  // Byte budget, e.g. "150KB". Quality becomes the ceiling of the search
+    animation?: 'preserve' | 'first-frame';  // Default: 'preserve' (animated GIF/WebP -> animated WebP)
+    maxFrames?: number;  // Default: 300. Longer animations are flattened to their first frame
+    animatedAvif?: 'webp' | 'first-frame';  // Default: 'webp'. What an animated source becomes when the format is 'avif'
+    sizePolicy?: SizePolicy;  // Default: 'keep-smaller'. What to do when the output isn't smaller than the source
+    minSavings?: number;  // Percent the output must save to replace the source (default: 0)
+    watermark?: WatermarkOptions;  // Per target only - there is no global watermark
+    maxFileSize?: number;  // Source size limit in bytes. Default: the global maxFileSize
+    oversizePolicy?: OversizePolicy;  // Default: 'skip'. What to do with sources over maxFileSize
+    fileNameTemplate?: string;  // Output / cloud key name, e.g. "{slug}.{hash:8}" (extension is appended)
+    collisionPolicy?: CollisionPolicy;  // When the name is taken. Default: 'suffix' locally, 'overwrite' in the cloud
+    preset?: string;  // Name of an entry in `presets`; settings on the target override the preset's
+    exclude?: string[];  // gitignore-style globs relative to the workspace root, e.g. ["public/vendor/"]
+    // Where outputs and originals go. Each defaults to the global setting of the same name
+    storageMode?: StorageMode;
+    outputDirectory?: string;
+    originalDirectory?: string;
+    inPlaceKeepOriginal?: boolean;
+    preserveSubfolders?: boolean;  // Default: false. Mirror subfolders below the target inside output/originalDirectory
+}
+
+// Named bundle of target settings, e.g. "hero": { format: 'avif', quality: 60, maxWidth: 1920 }
+export type Preset = Partial<Omit<WatchTarget, 'path' | 'preset'>>;
+
+type StorageKey = 'storageMode' | 'outputDirectory' | 'originalDirectory' | 'inPlaceKeepOriginal' | 'preserveSubfolders';
+
+// Conversion options resolved for a single file (target settings with defaults applied)
+export type ImageOptions = Omit<WatchTarget, 'path' | 'quality' | 'preset' | 'exclude' | StorageKey> & { quality: number | 'auto' };
+
+// Storage settings resolved for a single file (target settings over the global ones)
+export interface StorageOptions {
+    storageMode: StorageMode;
+    outputDirectory?: string;
+    originalDirectory?: string;
+    inPlaceKeepOriginal?: boolean;
+    preserveSubfolders?: boolean;
+    sourceRoot?: string;  // Absolute folder that preserveSubfolders mirrors from (the target's folder)
 }
 
 // Cloud upload configuration
@@ -17,19 +103,64 @@ export interface CloudUploadConfig {
     provider: 's3' | 'cloudinary' | 'gcs';
     config: Record<string, string>;  // Provider-specific config (supports ${env:VAR})
     deleteLocalAfterUpload: boolean;
+    exclude?: string[];  // gitignore-style globs relative to the workspace root
+}
+
+// Sprite sheet packed from the images directly inside a folder (rebuilt when they change)
+export interface SpriteConfig {
+    path: string;  // Folder with the sprite images, relative to the workspace root
+    output?: string;  // Atlas path without extension. Default: the folder path (public/icons -> public/icons.png)
+    format?: 'png' | 'webp';  // Default: 'png'
+    quality?: number;  // WebP only. Default: lossless
+    padding?: number;  // Pixels between sprites. Default: 2
+    maxSize?: number;  // Maximum atlas width/height in pixels. Default: 2048
+    className?: string;  // CSS class prefix. Default: the folder name
 }
 
 export interface UpflyConfig {
     enabled: boolean;
     watchTargets: WatchTarget[];
-    storageMode: 'in-place' | 'separate-output' | 'separate-original';
+    storageMode: StorageMode;
     outputDirectory?: string;
     originalDirectory?: string;
+    preserveSubfolders?: boolean;
     maxFileSize: number;
+    oversizePolicy?: OversizePolicy;  // Default for all targets, manual commands and cloud-only uploads
+    fileNameTemplate?: string;  // Default naming for all targets and cloud-only uploads
+    collisionPolicy?: CollisionPolicy;
     inPlaceKeepOriginal: boolean;
     cloudUpload?: CloudUploadConfig;
+    // Resize defaults for all targets and manual commands (targets can override)
+    maxWidth?: number;
+    maxHeight?: number;
+    fit?: FitMode;
+    position?: CropPosition;
+    metadata?: MetadataPolicy;  // Default metadata policy for all targets and manual commands
+    background?: string;  // Default JPEG flatten color for all targets and manual commands
+    colorspace?: ColorSpace;
+    encoderOptions?: EncoderOptions;  // Merged per format under each target's encoderOptions
+    sizePolicy?: SizePolicy;  // Default size guard for all targets and manual commands
+    minSavings?: number;
+    previewManualConversions?: boolean;  // Open the before/after preview for right-click conversions
+    historyRetentionDays?: number;  // Days original bytes are stashed for undo (0 = journal only)
+    sprites?: SpriteConfig[];
+    duplicateCheck?: boolean;  // Warn when a new image is a near-duplicate of an existing one
+    duplicateThreshold?: number;  // Max differing hash bits (of 64) to count as a near-duplicate. Default: 8
+    reprocessOnChange?: boolean;  // Reconvert / re-upload a watched image when its content is overwritten
+    workerThreads?: number;  // Encoder worker threads (0 = one per CPU core, minus one)
+    maxDecodeMemoryMB?: number;  // Cap on decoded pixels in flight across workers. Default: 512
+    presets?: Record<string, Preset>;  // Referenced by watchTargets[].preset and "Convert with Preset…"
 }
 
+// Allowed encoderOptions keys per format: 'boolean', [min, max] integer range, or enum values
+type EncoderOptionRule = 'boolean' | [number, number] | string[];
+const ENCODER_OPTION_RULES: Record<ImageFormat, Record<string, EncoderOptionRule>> = {
+    webp: { lossless: 'boolean', nearLossless: 'boolean', smartSubsample: 'boolean', alphaQuality: [0, 100], effort: [0, 6] },
+    avif: { lossless: 'boolean', effort: [0, 9], chromaSubsampling: ['4:4:4', '4:2:0'] },
+    jpeg: { progressive: 'boolean', mozjpeg: 'boolean', optimiseCoding: 'boolean', chromaSubsampling: ['4:4:4', '4:2:0'] },
+    png: { palette: 'boolean', colors: [2, 256], dither: [0, 1], compressionLevel: [0, 9], effort: [1, 10], progressive: 'boolean' }
+};
+
 const DEFAULT_WATCH_TARGET: WatchTarget = {
     path: 'public',
     format: 'webp',
@@ -44,14 +175,23 @@ const DEFAULT_CONFIG: UpflyConfig = {
     inPlaceKeepOriginal: false
 };
 
+// What each workspace folder's upfly.config.json / .upflyignore resolved to
+interface FolderState {
+    targets: WatchTarget[];  // Sorted by path length (longest first) for efficient lookup
+    ignoreRules: IgnoreRule[];  // Patterns from the folder's .upflyignore
+    errors: string[];  // Last validation result
+}
+
 export class ConfigService {
     private static instance: ConfigService;
-    private configWatcher?: vscode.FileSystemWatcher;
-    private _onDidChangeConfig = new vscode.EventEmitter<void>();
+    private configWatchers = new Map<string, vscode.FileSystemWatcher>();
+    private folderListener?: vscode.Disposable;
+    // Fires with the workspace folder whose config changed (or that was added/removed)
+    private _onDidChangeConfig = new vscode.EventEmitter<vscode.WorkspaceFolder>();
     public readonly onDidChangeConfig = this._onDidChangeConfig.event;
 
-    // Cached targets sorted by path length (longest first) for efficient lookup
-    private cachedTargets: WatchTarget[] = [];
+    // Keyed by workspace folder path, rebuilt when that folder's config changes
+    private folderStates = new Map<string, FolderState>();
 
     private constructor() {}
 
@@ -62,28 +202,47 @@ export class ConfigService {
         return this.instance;
     }
 
-    private debounceTimer: NodeJS.Timeout | undefined;
+    private debounceTimers = new Map<string, NodeJS.Timeout>();
 
     public initialize() {
-        // Watch for upfly.config.json changes in the workspace root
-        if (vscode.workspace.workspaceFolders) {
-            const pattern = new vscode.RelativePattern(vscode.workspace.workspaceFolders[0], 'upfly.config.json');
-            this.configWatcher = vscode.workspace.createFileSystemWatcher(pattern);
-            this.configWatcher.onDidChange(() => this.triggerConfigUpdate());
-            this.configWatcher.onDidCreate(() => this.triggerConfigUpdate());
-            this.configWatcher.onDidDelete(() => this.triggerConfigUpdate());
-        }
-        
+        WorkspaceService.getFolders().forEach(folder => this.addFolder(folder));
+
+        // Roots added to or removed from a multi-root workspace
+        this.folderListener = vscode.workspace.onDidChangeWorkspaceFolders(e => {
+            e.removed.forEach(folder => this.removeFolder(folder));
+            e.added.forEach(folder => this.addFolder(folder));
+            [...e.removed, ...e.added].forEach(folder => this._onDidChangeConfig.fire(folder));
+        });
+    }
+
+    private addFolder(folder: vscode.WorkspaceFolder) {
+        // Watch for upfly.config.json / .upflyignore changes in the folder root
+        const pattern = new vscode.RelativePattern(folder, '{upfly.config.json,.upflyignore}');
+        const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        watcher.onDidChange(() => this.triggerConfigUpdate(folder));
+        watcher.onDidCreate(() => this.triggerConfigUpdate(folder));
+        watcher.onDidDelete(() => this.triggerConfigUpdate(folder));
+        this.configWatchers.set(folder.uri.fsPath, watcher);
+
         // Build cache and validate on initial load
-        this.buildTargetCache();
-        this.validateConfig();
+        this.buildTargetCache(folder.uri.fsPath);
+        this.validateConfig(folder.uri.fsPath);
+    }
+
+    private removeFolder(folder: vscode.WorkspaceFolder) {
+        const workspaceRoot = folder.uri.fsPath;
+        this.configWatchers.get(workspaceRoot)?.dispose();
+        this.configWatchers.delete(workspaceRoot);
+        clearTimeout(this.debounceTimers.get(workspaceRoot));
+        this.debounceTimers.delete(workspaceRoot);
+        this.folderStates.delete(workspaceRoot);
     }
 
     /**
      * Normalize targets from either string[] (VS Code settings) or WatchTarget[] (upfly.config.json)
      * into a consistent WatchTarget[] format.
      */
-    private normalizeTargets(raw: any): WatchTarget[] {
+    private normalizeTargets(raw: any, workspaceRoot?: string): WatchTarget[] {
         // If explicitly empty array, return empty (for cloud-only mode)
         if (Array.isArray(raw) && raw.length === 0) {
             return [];
@@ -99,10 +258,41 @@ export class ConfigService {
                 return { path: item, format: 'webp' as const, quality: 80 };
             } else if (typeof item === 'object' && item !== null && item.path) {
                 // New object format
+                item = this.applyPreset(item, workspaceRoot);
                 return {
                     path: item.path,
                     format: item.format || 'webp',
-                    quality: item.quality ?? 80
+                    quality: item.quality ?? 80,
+                    ssimThreshold: item.ssimThreshold,
+                    widths: item.widths,
+                    keepFullSize: item.keepFullSize,
+                    maxWidth: item.maxWidth,
+                    maxHeight: item.maxHeight,
+                    fit: item.fit,
+                    position: item.position,
+                    metadata: item.metadata,
+                    background: item.background,
+                    colorspace: item.colorspace,
+                    grayscale: item.grayscale,
+                    encoderOptions: item.encoderOptions,
+                    targetSize: item.targetSize,
+                    animation: item.animation,
+                    maxFrames: item.maxFrames,
+                    animatedAvif: item.animatedAvif,
+                    sizePolicy: item.sizePolicy,
+                    minSavings: item.minSavings,
+                    watermark: item.watermark,
+                    maxFileSize: item.maxFileSize,
+                    oversizePolicy: item.oversizePolicy,
+                    fileNameTemplate: item.fileNameTemplate,
+                    collisionPolicy: item.collisionPolicy,
+                    preset: item.preset,
+                    exclude: item.exclude,
+                    storageMode: item.storageMode,
+                    outputDirectory: item.outputDirectory,
+                    originalDirectory: item.originalDirectory,
+                    inPlaceKeepOriginal: item.inPlaceKeepOriginal,
+                    preserveSubfolders: item.preserveSubfolders
                 };
             }
             // Invalid item, use default
@@ -110,51 +300,227 @@ export class ConfigService {
         });
     }
 
-    private buildTargetCache() {
-        const config = this.readLocalConfig();
+    /**
+     * Layer a target's own settings over its preset. encoderOptions are merged per format (target wins).
+     */
+    private applyPreset(item: any, workspaceRoot?: string): any {
+        const preset = typeof item.preset === 'string' ? this.getPresets(workspaceRoot)[item.preset] : undefined;
+        if (!preset) {
+            return item;
+        }
+
+        let encoderOptions = item.encoderOptions ?? preset.encoderOptions;
+        if (preset.encoderOptions && item.encoderOptions) {
+            encoderOptions = { ...preset.encoderOptions };
+            for (const [format, options] of Object.entries<any>(item.encoderOptions)) {
+                encoderOptions[format] = { ...encoderOptions[format], ...options };
+            }
+        }
+        return { ...preset, ...item, encoderOptions };
+    }
+
+    private getPresets(filePath?: string): Record<string, Preset> {
+        const presets = this.get<Record<string, Preset> | undefined>('presets', filePath);
+        return typeof presets === 'object' && presets !== null && !Array.isArray(presets) ? presets : {};
+    }
+
+    /**
+     * Presets of the workspace folder owning `filePath` (default: the first folder)
+     */
+    public getPresetNames(filePath?: string): string[] {
+        return Object.keys(this.getPresets(filePath));
+    }
+
+    /**
+     * Conversion options for a preset on its own (manual "Convert with Preset…"), with the usual global fallbacks
+     */
+    public getPresetOptions(name: string, filePath?: string): ImageOptions | undefined {
+        const workspaceRoot = WorkspaceService.getRoot(filePath);
+        if (!(name in this.getPresets(workspaceRoot))) {
+            return undefined;
+        }
+        const target = this.applyPreset({ path: '', preset: name }, workspaceRoot);
+        return this.toImageOptions({ ...target, format: target.format || 'webp' }, workspaceRoot);
+    }
+
+    private buildTargetCache(workspaceRoot: string) {
+        const config = this.readLocalConfig(workspaceRoot);
         // If config exists, use its watchTargets (even if empty)
         // Only fallback to VS Code settings if no config file
         const rawTargets = config 
             ? (config.watchTargets ?? [])  // upfly.config.json exists - use its value (even if empty)
-            : (this.getVSCodeWatchTargets() || DEFAULT_CONFIG.watchTargets); // No config file - use VS Code settings
-        const targets = this.normalizeTargets(rawTargets);
+            : (this.getVSCodeWatchTargets(workspaceRoot) || DEFAULT_CONFIG.watchTargets); // No config file - use VS Code settings
+        const targets = this.normalizeTargets(rawTargets, workspaceRoot);
         
-        // Sort by path length descending (longest/most specific first)
-        this.cachedTargets = [...targets].sort((a, b) => b.path.length - a.path.length);
+        this.folderStates.set(workspaceRoot, {
+            // Sort by path length descending (longest/most specific first)
+            targets: [...targets].sort((a, b) => b.path.length - a.path.length),
+            ignoreRules: IgnoreService.compile(this.readIgnoreFile(workspaceRoot)),
+            errors: this.folderStates.get(workspaceRoot)?.errors ?? []
+        });
+    }
+
+    /**
+     * Cached state of a workspace folder, built on first use (e.g. a file outside every folder)
+     */
+    private getState(workspaceRoot: string): FolderState {
+        if (!this.folderStates.has(workspaceRoot)) {
+            this.buildTargetCache(workspaceRoot);
+        }
+        return this.folderStates.get(workspaceRoot)!;
+    }
+
+    private readIgnoreFile(workspaceRoot: string): string[] {
+        const ignorePath = path.join(workspaceRoot, '.upflyignore');
+        try {
+            return fs.existsSync(ignorePath) ? IgnoreService.parse(fs.readFileSync(ignorePath, 'utf8')) : [];
+        } catch (e) {
+            console.error('Upfly: Failed to read .upflyignore', e);
+            return [];
+        }
+    }
+
+    /**
+     * Whether a file is ruled out by .upflyignore or the given `exclude` globs
+     */
+    private isExcluded(workspaceRoot: string, relativePath: string, exclude?: string[]): boolean {
+        if (IgnoreService.matches(this.getState(workspaceRoot).ignoreRules, relativePath)) return true;
+        return Array.isArray(exclude) && IgnoreService.matches(IgnoreService.compile(exclude), relativePath);
+    }
+
+    /**
+     * Whether Upfly handles a file at all: converted or uploaded by some target, and not excluded.
+     * Used by the bulk scans.
+     */
+    public isWatched(filePath: string): boolean {
+        return this.shouldConvert(filePath) || this.isCloudTarget(filePath);
     }
 
-    private getVSCodeWatchTargets(): any {
-        const vscodeConfig = vscode.workspace.getConfiguration('upfly');
+    /**
+     * Whether the .upflyignore of the file's workspace folder excludes it (for scans outside the watch targets)
+     */
+    public isIgnored(filePath: string): boolean {
+        const workspaceRoot = WorkspaceService.getRoot(filePath);
+        if (!workspaceRoot) return false;
+        return IgnoreService.matches(this.getState(workspaceRoot).ignoreRules, path.relative(workspaceRoot, filePath));
+    }
+
+    private getVSCodeWatchTargets(workspaceRoot: string): any {
+        const vscodeConfig = vscode.workspace.getConfiguration('upfly', vscode.Uri.file(workspaceRoot));
         return vscodeConfig.get('watchTargets');
     }
 
     /**
-     * Get format and quality for a specific file path.
+     * Get conversion options (format, quality, variants) for a specific file path.
      * Uses cached targets for zero config-read overhead.
      */
-    public getOptionsForPath(filePath: string): { format: 'webp' | 'png' | 'jpeg' | 'avif', quality: number } {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    public getOptionsForPath(filePath: string): ImageOptions {
+        const workspaceRoot = WorkspaceService.getRoot(filePath);
         if (!workspaceRoot) {
-            return { format: 'webp', quality: 80 };
+            return this.toImageOptions(DEFAULT_WATCH_TARGET);
         }
 
-        // Get relative path and normalize slashes
-        const relativePath = path.relative(workspaceRoot, filePath).replace(/\\/g, '/');
-
-        // Find first match (longest path wins because sorted)
-        for (const target of this.cachedTargets) {
-            const normalizedTargetPath = target.path.replace(/\\/g, '/');
-            if (relativePath.startsWith(normalizedTargetPath + '/') || relativePath.startsWith(normalizedTargetPath)) {
-                return {
-                    format: target.format,
-                    quality: target.quality ?? 80
-                };
-            }
+        const target = this.findTarget(workspaceRoot, filePath);
+        if (target) {
+            return this.toImageOptions(target, workspaceRoot);
         }
 
         // Fallback to first target or default
-        const fallback = this.cachedTargets[0] || DEFAULT_WATCH_TARGET;
-        return { format: fallback.format, quality: fallback.quality ?? 80 };
+        const { targets } = this.getState(workspaceRoot);
+        return this.toImageOptions(targets[0] || DEFAULT_WATCH_TARGET, workspaceRoot);
+    }
+
+    /**
+     * Most specific watch target containing a file (targets are sorted longest path first)
+     */
+    private findTarget(workspaceRoot: string, filePath: string): WatchTarget | undefined {
+        const relativePath = path.relative(workspaceRoot, filePath).replace(/\\/g, '/');
+        return this.getState(workspaceRoot).targets.find(target => this.isInTarget(relativePath, target.path));
+    }
+
+    /**
+     * Whether a workspace-relative path is the target folder or inside it ("public" doesn't contain "public2/x.png")
+     */
+    private isInTarget(relativePath: string, targetPath: string): boolean {
+        const folder = targetPath.replace(/\\/g, '/').replace(/^\.\//, '').replace(/^\/+|\/+$/g, '');
+        if (!folder || folder === '.') return true;
+        return relativePath === folder || relativePath.startsWith(folder + '/');
+    }
+
+    /**
+     * Where a file's outputs and original go: its target's storage settings, each falling back to the global one.
+     * Files outside every target use the global settings and mirror subfolders from the workspace folder.
+     */
+    public getStorageOptions(filePath: string): StorageOptions {
+        const workspaceRoot = WorkspaceService.getRoot(filePath);
+        const target = workspaceRoot ? this.findTarget(workspaceRoot, filePath) : undefined;
+        const get = <T>(key: keyof UpflyConfig) => this.get<T>(key, filePath);
+
+        return {
+            storageMode: target?.storageMode ?? get<StorageMode>('storageMode'),
+            outputDirectory: target?.outputDirectory || get<string | undefined>('outputDirectory') || undefined,
+            originalDirectory: target?.originalDirectory || get<string | undefined>('originalDirectory') || undefined,
+            inPlaceKeepOriginal: target?.inPlaceKeepOriginal ?? get<boolean>('inPlaceKeepOriginal'),
+            preserveSubfolders: target?.preserveSubfolders ?? get<boolean | undefined>('preserveSubfolders'),
+            sourceRoot: workspaceRoot && path.join(workspaceRoot, target ? this.getTargetFolder(target.path) : '')
+        };
+    }
+
+    /**
+     * Folder part of a target path: "./public/" -> "public", "assets/icons/*.png" -> "assets/icons"
+     */
+    private getTargetFolder(targetPath: string): string {
+        const segments = targetPath.replace(/\\/g, '/').replace(/^\.\//, '').split('/').filter(Boolean);
+        const globIndex = segments.findIndex(segment => /[*?[{]/.test(segment));
+        return (globIndex === -1 ? segments : segments.slice(0, globIndex)).join('/');
+    }
+
+    /**
+     * Apply defaults to a target. Resize, metadata and size guard settings fall back to the global values,
+     * encoder options are merged per format (target wins).
+     */
+    private toImageOptions(target: WatchTarget, workspaceRoot?: string): ImageOptions {
+        const get = <T>(key: keyof UpflyConfig) => this.get<T>(key, workspaceRoot);
+        const globalEncoder = get<EncoderOptions | undefined>('encoderOptions') || {};
+        const targetEncoder = target.encoderOptions || {};
+        const encoderOptions: EncoderOptions = {
+            webp: { ...globalEncoder.webp, ...targetEncoder.webp },
+            avif: { ...globalEncoder.avif, ...targetEncoder.avif },
+            jpeg: { ...globalEncoder.jpeg, ...targetEncoder.jpeg },
+            png: { ...globalEncoder.png, ...targetEncoder.png }
+        };
+
+        return {
+            format: target.format,
+            quality: target.quality ?? 80,
+            ssimThreshold: target.ssimThreshold,
+            widths: target.widths,
+            keepFullSize: target.keepFullSize,
+            // 0 means no limit, so a target can lift a global cap
+            maxWidth: (target.maxWidth ?? get<number | undefined>('maxWidth')) || undefined,
+            maxHeight: (target.maxHeight ?? get<number | undefined>('maxHeight')) || undefined,
+            fit: target.fit ?? get<FitMode | undefined>('fit'),
+            position: target.position ?? get<CropPosition | undefined>('position'),
+            metadata: target.metadata ?? get<MetadataPolicy | undefined>('metadata'),
+            background: target.background || get<string | undefined>('background') || undefined,
+            colorspace: target.colorspace ?? get<ColorSpace | undefined>('colorspace'),
+            grayscale: target.grayscale,
+            encoderOptions,
+            targetSize: target.targetSize,
+            animation: target.animation,
+            maxFrames: target.maxFrames,
+            animatedAvif: target.animatedAvif,
+            sizePolicy: target.sizePolicy ?? get<SizePolicy | undefined>('sizePolicy'),
+            minSavings: target.minSavings ?? get<number | undefined>('minSavings'),
+            // Resolved here so the encoder (which may run in a worker) never needs the workspace
+            watermark: target.watermark?.image
+                ? { ...target.watermark, image: path.resolve(workspaceRoot ?? '', target.watermark.image) }
+                : target.watermark,
+            maxFileSize: target.maxFileSize ?? get<number | undefined>('maxFileSize'),
+            oversizePolicy: target.oversizePolicy ?? get<OversizePolicy | undefined>('oversizePolicy'),
+            fileNameTemplate: target.fileNameTemplate || get<string | undefined>('fileNameTemplate') || undefined,
+            collisionPolicy: target.collisionPolicy ?? get<CollisionPolicy | undefined>('collisionPolicy')
+        };
     }
 
     // ========== CLOUD UPLOAD HELPERS ==========
@@ -164,21 +530,20 @@ export class ConfigService {
      * Path must be in cloudUpload.watchTargets (independent of root watchTargets)
      */
     public isCloudTarget(filePath: string): boolean {
-        const cloudConfig = this.get<CloudUploadConfig | undefined>('cloudUpload');
+        const cloudConfig = this.get<CloudUploadConfig | undefined>('cloudUpload', filePath);
         if (!cloudConfig?.enabled || !cloudConfig.watchTargets?.length) {
             return false;
         }
 
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const workspaceRoot = WorkspaceService.getRoot(filePath);
         if (!workspaceRoot) return false;
 
         const relativePath = path.relative(workspaceRoot, filePath).replace(/\\/g, '/');
 
         // Check if path matches any cloudUpload.watchTargets
         for (const target of cloudConfig.watchTargets) {
-            const normalizedTarget = target.replace(/\\/g, '/');
-            if (relativePath.startsWith(normalizedTarget + '/') || relativePath === normalizedTarget || relativePath.startsWith(normalizedTarget)) {
-                return true;
+            if (this.isInTarget(relativePath, target)) {
+                return !this.isExcluded(workspaceRoot, relativePath, cloudConfig.exclude);
             }
         }
 
@@ -189,27 +554,82 @@ export class ConfigService {
      * Check if a file path should be converted (exists in root watchTargets)
      */
     public shouldConvert(filePath: string): boolean {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const workspaceRoot = WorkspaceService.getRoot(filePath);
         if (!workspaceRoot) return false;
 
         const relativePath = path.relative(workspaceRoot, filePath).replace(/\\/g, '/');
         
-        // Check if path matches any root watchTargets
-        for (const target of this.cachedTargets) {
-            const normalizedTarget = target.path.replace(/\\/g, '/');
-            if (relativePath.startsWith(normalizedTarget + '/') || relativePath === normalizedTarget || relativePath.startsWith(normalizedTarget)) {
-                return true;
+        // Check if path matches any root watchTargets (the most specific target's excludes apply)
+        for (const target of this.getState(workspaceRoot).targets) {
+            if (this.isInTarget(relativePath, target.path)) {
+                return !this.isExcluded(workspaceRoot, relativePath, target.exclude);
             }
         }
 
         return false;
     }
 
+    /**
+     * Options for a cloud-only upload (no watch target): the source format with the global size limit.
+     * Only encoded when an oversized file has to be downscaled before upload.
+     * Formats Upfly can't write (GIF, TIFF) are re-encoded as WebP.
+     */
+    public getRawUploadOptions(filePath: string): ImageOptions {
+        const ext = path.extname(filePath).slice(1).toLowerCase();
+        const sourceFormat = ext === 'jpg' ? 'jpeg' : ext;
+        const isWritable = (Object.keys(ENCODER_OPTION_RULES) as string[]).includes(sourceFormat);
+        return {
+            format: isWritable ? sourceFormat as ImageFormat : 'webp',
+            quality: DEFAULT_WATCH_TARGET.quality!,
+            metadata: this.get<MetadataPolicy | undefined>('metadata', filePath),
+            maxFileSize: this.get<number | undefined>('maxFileSize', filePath),
+            oversizePolicy: this.get<OversizePolicy | undefined>('oversizePolicy', filePath),
+            fileNameTemplate: this.get<string | undefined>('fileNameTemplate', filePath) || undefined,
+            collisionPolicy: this.get<CollisionPolicy | undefined>('collisionPolicy', filePath)
+        };
+    }
+
+    /**
+     * Folders Upfly watches in a workspace folder: root watchTargets plus cloud-only targets (relative to it)
+     */
+    public getWatchedPaths(workspaceRoot: string): string[] {
+        return [...new Set([...this.getState(workspaceRoot).targets.map(t => t.path), ...this.getCloudWatchTargets(workspaceRoot)])];
+    }
+
+    // ========== SPRITE HELPERS ==========
+
+    public getSpriteConfigs(workspaceRoot?: string): SpriteConfig[] {
+        const sprites = this.get<SpriteConfig[] | undefined>('sprites', workspaceRoot);
+        return Array.isArray(sprites) ? sprites.filter(s => s && typeof s.path === 'string') : [];
+    }
+
+    /**
+     * Sprite config for a folder (exact match), if the folder is a configured sprite folder
+     */
+    public getSpriteForFolder(folderPath: string): SpriteConfig | undefined {
+        const workspaceRoot = WorkspaceService.getRoot(folderPath);
+        if (!workspaceRoot) return undefined;
+
+        const relativePath = path.relative(workspaceRoot, folderPath).replace(/\\/g, '/');
+        return this.getSpriteConfigs(workspaceRoot).find(s => this.normalizeSpritePath(s.path) === relativePath);
+    }
+
+    /**
+     * Sprite config whose folder directly contains this file (sprite sources are never converted)
+     */
+    public getSpriteForFile(filePath: string): SpriteConfig | undefined {
+        return this.getSpriteForFolder(path.dirname(filePath));
+    }
+
+    private normalizeSpritePath(spritePath: string): string {
+        return spritePath.replace(/\\/g, '/').replace(/^\.\//, '').replace(/^\/+|\/+$/g, '');
+    }
+
     /**
      * Get cloud watch targets (for WatcherService to create watchers)
      */
-    public getCloudWatchTargets(): string[] {
-        const cloudConfig = this.get<CloudUploadConfig | undefined>('cloudUpload');
+    public getCloudWatchTargets(workspaceRoot?: string): string[] {
+        const cloudConfig = this.get<CloudUploadConfig | undefined>('cloudUpload', workspaceRoot);
         if (!cloudConfig?.enabled || !cloudConfig.watchTargets?.length) {
             return [];
         }
@@ -217,16 +637,17 @@ export class ConfigService {
     }
 
     /**
-     * Get resolved cloud config with env variables replaced
+     * Get resolved cloud config with env variables replaced (from the .env of the folder owning `filePath`)
      */
-    public getCloudConfig(): CloudUploadConfig | null {
-        const cloudConfig = this.get<CloudUploadConfig | undefined>('cloudUpload');
+    public getCloudConfig(filePath?: string): CloudUploadConfig | null {
+        const cloudConfig = this.get<CloudUploadConfig | undefined>('cloudUpload', filePath);
         if (!cloudConfig?.enabled) return null;
 
         // Resolve env variables in config
+        const envVars = this.loadEnvFile(WorkspaceService.getRoot(filePath));
         const resolvedConfig = { ...cloudConfig.config };
         for (const [key, value] of Object.entries(resolvedConfig)) {
-            resolvedConfig[key] = this.resolveEnvVars(value);
+            resolvedConfig[key] = this.resolveEnvVars(value, envVars);
         }
 
         return {
@@ -239,12 +660,9 @@ export class ConfigService {
      * Resolve ${env:VAR_NAME} patterns to actual environment values
      * Loads from both .env file in workspace AND system environment variables
      */
-    private resolveEnvVars(value: string): string {
+    private resolveEnvVars(value: string, envVars: Record<string, string>): string {
         if (typeof value !== 'string') return value;
         
-        // Load .env file from workspace root
-        const envVars = this.loadEnvFile();
-        
         return value.replace(/\$\{env:([^}]+)\}/g, (match, varName) => {
             // First check .env file, then fall back to process.env
             const envValue = envVars[varName] ?? process.env[varName];
@@ -257,17 +675,16 @@ export class ConfigService {
     }
 
     /**
-     * Parse .env file from workspace root
+     * Parse .env file from a workspace folder root
      */
-    private loadEnvFile(): Record<string, string> {
+    private loadEnvFile(workspaceRoot?: string): Record<string, string> {
         const envVars: Record<string, string> = {};
         
-        if (!vscode.workspace.workspaceFolders) {
+        if (!workspaceRoot) {
             return envVars;
         }
         
-        const rootPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
-        const envPath = path.join(rootPath, '.env');
+        const envPath = path.join(workspaceRoot, '.env');
         
         if (!fs.existsSync(envPath)) {
             return envVars;
@@ -303,27 +720,32 @@ export class ConfigService {
         return envVars;
     }
 
-    private triggerConfigUpdate() {
-        if (this.debounceTimer) {
-            clearTimeout(this.debounceTimer);
-        }
-        this.debounceTimer = setTimeout(() => {
-            console.log('Upfly: Config changed (debounced), validating and reloading...');
-            this.buildTargetCache(); // Rebuild cache on config change
-            this.validateConfig();
-            this._onDidChangeConfig.fire();
-        }, 500);
+    private triggerConfigUpdate(folder: vscode.WorkspaceFolder) {
+        const workspaceRoot = folder.uri.fsPath;
+        clearTimeout(this.debounceTimers.get(workspaceRoot));
+        this.debounceTimers.set(workspaceRoot, setTimeout(() => {
+            this.debounceTimers.delete(workspaceRoot);
+            console.log(`Upfly: Config of ${folder.name} changed (debounced), validating and reloading...`);
+            this.buildTargetCache(workspaceRoot); // Rebuild cache on config change
+            this.validateConfig(workspaceRoot);
+            this._onDidChangeConfig.fire(folder);
+        }, 500));
     }
 
-    public get<T>(key: keyof UpflyConfig): T {
+    /**
+     * Read a setting for the workspace folder owning `filePath` (default: the first folder)
+     */
+    public get<T>(key: keyof UpflyConfig, filePath?: string): T {
+        const folder = WorkspaceService.getFolder(filePath);
+
         // 1. Try upfly.config.json
-        const jsonConfig = this.readLocalConfig();
+        const jsonConfig = this.readLocalConfig(folder?.uri.fsPath);
         if (jsonConfig && jsonConfig[key] !== undefined) {
             return jsonConfig[key] as T;
         }
 
-        // 2. Fallback to VS Code Settings
-        const vscodeConfig = vscode.workspace.getConfiguration('upfly');
+        // 2. Fallback to VS Code Settings (folder settings win over workspace/user settings)
+        const vscodeConfig = vscode.workspace.getConfiguration('upfly', folder?.uri);
         const value = vscodeConfig.get<T>(key);
         if (value !== undefined) {
             return value;
@@ -336,11 +758,10 @@ export class ConfigService {
         return undefined as unknown as T;
     }
 
-    private readLocalConfig(): Partial<UpflyConfig> | null {
-        if (!vscode.workspace.workspaceFolders) return null;
+    private readLocalConfig(workspaceRoot?: string): Partial<UpflyConfig> | null {
+        if (!workspaceRoot) return null;
         
-        const rootPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
-        const configPath = path.join(rootPath, 'upfly.config.json');
+        const configPath = path.join(workspaceRoot, 'upfly.config.json');
 
         if (fs.existsSync(configPath)) {
             try {
@@ -355,30 +776,31 @@ export class ConfigService {
 
     // ========== CONFIG VALIDATION ==========
     
-    private _lastValidationErrors: string[] = [];
-    private _isConfigValid: boolean = true;
-
-    public get isConfigValid(): boolean {
-        return this._isConfigValid;
+    /**
+     * Whether the config of the workspace folder owning `filePath` is valid (default: the first folder)
+     */
+    public isConfigValid(filePath?: string): boolean {
+        return this.getValidationErrors(filePath).length === 0;
     }
 
-    public get validationErrors(): string[] {
-        return this._lastValidationErrors;
+    public getValidationErrors(filePath?: string): string[] {
+        const workspaceRoot = WorkspaceService.getRoot(filePath);
+        return workspaceRoot ? this.getState(workspaceRoot).errors : [];
     }
 
     /**
-     * Validates the config and shows error messages if invalid.
+     * Validates a workspace folder's config and stores the errors.
      * Call this after config changes.
      * Returns true if config is valid, false otherwise.
      */
-    public validateConfig(): boolean {
-        const config = this.readLocalConfig();
+    public validateConfig(workspaceRoot: string): boolean {
+        const config = this.readLocalConfig(workspaceRoot);
         const errors: string[] = [];
+        const state = this.getState(workspaceRoot);
 
         // If no config file, use defaults which are always valid
         if (!config) {
-            this._isConfigValid = true;
-            this._lastValidationErrors = [];
+            state.errors = [];
             return true;
         }
 
@@ -388,6 +810,30 @@ export class ConfigService {
                                 Array.isArray(config.cloudUpload?.watchTargets) && 
                                 config.cloudUpload.watchTargets.length > 0;
         
+        // Validate `presets` - named target settings, referenced by watchTargets[].preset
+        let presets: Record<string, any> | undefined;
+        if (config.presets !== undefined) {
+            if (typeof config.presets !== 'object' || config.presets === null || Array.isArray(config.presets)) {
+                errors.push(`"presets" must be an object of named settings (e.g. { "hero": { "format": "avif", "quality": 60 } }).`);
+            } else {
+                presets = config.presets;
+                for (const [name, preset] of Object.entries<any>(config.presets)) {
+                    const prefix = `presets.${name}`;
+                    if (typeof preset !== 'object' || preset === null || Array.isArray(preset)) {
+                        errors.push(`${prefix}: Must be an object of target settings.`);
+                        continue;
+                    }
+                    if (preset.path !== undefined || preset.preset !== undefined) {
+                        errors.push(`${prefix}: "path" and "preset" belong on the watch target, not the preset.`);
+                    }
+                    if (preset.format !== undefined && !validFormats.includes(preset.format)) {
+                        errors.push(`${prefix}: "format" must be one of: ${validFormats.join(', ')}`);
+                    }
+                    this.validateTargetSettings(preset, errors, prefix, workspaceRoot, config);
+                }
+            }
+        }
+
         if (config.watchTargets !== undefined) {
             if (!Array.isArray(config.watchTargets)) {
                 errors.push(`"watchTargets" must be an array.`);
@@ -407,58 +853,70 @@ export class ConfigService {
                         errors.push(`${prefix}: "path" is required and must be a string.`);
                     }
                     
-                    if (!target.format || !validFormats.includes(target.format)) {
+                    // A preset can supply the format (and any other setting the target leaves out)
+                    const preset = typeof target.preset === 'string' ? presets?.[target.preset] : undefined;
+                    if (target.preset !== undefined && !preset) {
+                        errors.push(`${prefix}: "preset" "${target.preset}" is not defined in "presets".`);
+                    }
+
+                    const format = target.format ?? preset?.format;
+                    if (!format || !validFormats.includes(format)) {
                         errors.push(`${prefix}: "format" must be one of: ${validFormats.join(', ')}`);
                     }
                     
-                    if (target.quality !== undefined) {
-                        if (typeof target.quality !== 'number' || target.quality < 1 || target.quality > 100) {
-                            errors.push(`${prefix}: "quality" must be 1-100.`);
-                        }
-                    }
+                    this.validateTargetSettings(target, errors, prefix, workspaceRoot, preset ? { ...config, ...preset } : config);
                 });
             }
         }
 
-        // Validate `storageMode`
-        const validStorageModes = ['in-place', 'separate-output', 'separate-original'];
-        if (config.storageMode !== undefined && !validStorageModes.includes(config.storageMode as string)) {
-            errors.push(`"storageMode": "${config.storageMode}" is invalid. Use one of: ${validStorageModes.join(', ')}`);
-        }
+        // Validate global resize and metadata defaults
+        this.validateResizeOptions(config, errors);
+        this.validateMetadataPolicy(config.metadata, errors);
+        this.validateColorOptions(config, errors);
+        this.validateEncoderOptions(config.encoderOptions, errors);
+        this.validateSizeGuard(config, errors);
+        this.validateFileSizeLimit(config, errors);
+        this.validateNaming(config, errors);
+
+        this.validateStorage(config, errors);
 
         // Validate `enabled`
         if (config.enabled !== undefined && typeof config.enabled !== 'boolean') {
             errors.push(`"enabled" must be true or false.`);
         }
 
-        // Validate `inPlaceKeepOriginal`
-        if (config.inPlaceKeepOriginal !== undefined && typeof config.inPlaceKeepOriginal !== 'boolean') {
-            errors.push(`"inPlaceKeepOriginal" must be true or false.`);
+        // Validate `previewManualConversions`
+        if (config.previewManualConversions !== undefined && typeof config.previewManualConversions !== 'boolean') {
+            errors.push(`"previewManualConversions" must be true or false.`);
         }
 
-        // Validate `maxFileSize`
-        if (config.maxFileSize !== undefined) {
-            if (typeof config.maxFileSize !== 'number' || config.maxFileSize < 0) {
-                errors.push(`"maxFileSize" must be a positive number (in bytes).`);
-            }
+        // Validate `historyRetentionDays`
+        if (config.historyRetentionDays !== undefined &&
+            (typeof config.historyRetentionDays !== 'number' || !Number.isInteger(config.historyRetentionDays) || config.historyRetentionDays < 0)) {
+            errors.push(`"historyRetentionDays" must be a whole number of days (0 or more).`);
         }
 
-        // Validate `outputDirectory` (must be string if provided)
-        if (config.outputDirectory !== undefined && typeof config.outputDirectory !== 'string') {
-            errors.push(`"outputDirectory" must be a string path.`);
+        // Validate duplicate detection
+        if (config.duplicateCheck !== undefined && typeof config.duplicateCheck !== 'boolean') {
+            errors.push(`"duplicateCheck" must be true or false.`);
+        }
+        if (config.duplicateThreshold !== undefined &&
+            (!Number.isInteger(config.duplicateThreshold) || config.duplicateThreshold < 0 || config.duplicateThreshold > 32)) {
+            errors.push(`"duplicateThreshold" must be an integer from 0 to 32 (differing bits of a 64-bit hash).`);
         }
 
-        // Validate `originalDirectory` (must be string if provided)
-        if (config.originalDirectory !== undefined && typeof config.originalDirectory !== 'string') {
-            errors.push(`"originalDirectory" must be a string path.`);
+        if (config.reprocessOnChange !== undefined && typeof config.reprocessOnChange !== 'boolean') {
+            errors.push(`"reprocessOnChange" must be true or false.`);
         }
 
-        // Check for required directories based on storageMode
-        if (config.storageMode === 'separate-output' && !config.outputDirectory) {
-            errors.push(`"storageMode" is "separate-output" but "outputDirectory" is not set.`);
+        // Validate encoder pool settings
+        if (config.workerThreads !== undefined &&
+            (!Number.isInteger(config.workerThreads) || config.workerThreads < 0)) {
+            errors.push(`"workerThreads" must be a whole number (0 = one per CPU core).`);
         }
-        if (config.storageMode === 'separate-original' && !config.originalDirectory) {
-            errors.push(`"storageMode" is "separate-original" but "originalDirectory" is not set.`);
+        if (config.maxDecodeMemoryMB !== undefined &&
+            (typeof config.maxDecodeMemoryMB !== 'number' || config.maxDecodeMemoryMB <= 0)) {
+            errors.push(`"maxDecodeMemoryMB" must be a positive number of megabytes.`);
         }
 
         // Validate `cloudUpload` (if present)
@@ -497,30 +955,361 @@ export class ConfigService {
                 if (cloud.deleteLocalAfterUpload !== undefined && typeof cloud.deleteLocalAfterUpload !== 'boolean') {
                     errors.push(`"cloudUpload.deleteLocalAfterUpload" must be true or false.`);
                 }
+
+                this.validateExclude(cloud.exclude, errors, 'cloudUpload');
+            }
+        }
+
+        // Validate `sprites`
+        if (config.sprites !== undefined) {
+            if (!Array.isArray(config.sprites)) {
+                errors.push(`"sprites" must be an array of { path, format?, padding?, maxSize? } objects.`);
+            } else {
+                config.sprites.forEach((sprite: any, index: number) => {
+                    const prefix = `sprites[${index}]`;
+                    if (typeof sprite !== 'object' || sprite === null || typeof sprite.path !== 'string' || sprite.path.trim() === '') {
+                        errors.push(`${prefix}: "path" is required (folder with the sprite images).`);
+                        return;
+                    }
+                    if (sprite.output !== undefined) {
+                        const folder = this.normalizeSpritePath(sprite.path);
+                        const output = typeof sprite.output === 'string' ? this.normalizeSpritePath(sprite.output) : undefined;
+                        if (output === undefined) {
+                            errors.push(`${prefix}: "output" must be a string path.`);
+                        } else if (output.startsWith(folder + '/')) {
+                            errors.push(`${prefix}: "output" must be outside the sprite folder, or the atlas would be packed into itself.`);
+                        }
+                    }
+                    if (sprite.format !== undefined && !['png', 'webp'].includes(sprite.format)) {
+                        errors.push(`${prefix}: "format" must be "png" or "webp".`);
+                    }
+                    if (sprite.quality !== undefined && (!Number.isInteger(sprite.quality) || sprite.quality < 1 || sprite.quality > 100)) {
+                        errors.push(`${prefix}: "quality" must be an integer from 1 to 100.`);
+                    }
+                    if (sprite.padding !== undefined && (!Number.isInteger(sprite.padding) || sprite.padding < 0)) {
+                        errors.push(`${prefix}: "padding" must be a whole number of pixels (0 or more).`);
+                    }
+                    if (sprite.maxSize !== undefined && (!Number.isInteger(sprite.maxSize) || sprite.maxSize < 1 || sprite.maxSize > 16384)) {
+                        errors.push(`${prefix}: "maxSize" must be an integer from 1 to 16384.`);
+                    }
+                    if (sprite.className !== undefined && (typeof sprite.className !== 'string' || !/^[a-zA-Z_-][\w-]*$/.test(sprite.className))) {
+                        errors.push(`${prefix}: "className" must be a valid CSS class name.`);
+                    }
+                });
             }
         }
 
         // Store results
-        this._lastValidationErrors = errors;
-        this._isConfigValid = errors.length === 0;
+        state.errors = errors;
 
         // Only log errors silently (no popup while editing)
         if (errors.length > 0) {
-            console.log('Upfly: Config validation errors detected (silent):', errors);
+            console.log(`Upfly: Config validation errors detected in ${workspaceRoot} (silent):`, errors);
+        }
+
+        return errors.length === 0;
+    }
+
+    /**
+     * Validate the conversion settings shared by watch targets and presets (everything but path/format).
+     * `defaults` supplies the values a target falls back to.
+     */
+    private validateTargetSettings(options: any, errors: string[], prefix: string, workspaceRoot: string, defaults?: any) {
+        if (options.quality !== undefined && options.quality !== 'auto') {
+            if (typeof options.quality !== 'number' || options.quality < 1 || options.quality > 100) {
+                errors.push(`${prefix}: "quality" must be 1-100 or "auto".`);
+            }
+        }
+
+        if (options.ssimThreshold !== undefined) {
+            if (typeof options.ssimThreshold !== 'number' || options.ssimThreshold <= 0 || options.ssimThreshold >= 1) {
+                errors.push(`${prefix}: "ssimThreshold" must be a number between 0 and 1 (e.g. 0.97).`);
+            }
+        }
+
+        if (options.widths !== undefined) {
+            if (!Array.isArray(options.widths) || options.widths.length === 0 ||
+                !options.widths.every((w: any) => Number.isInteger(w) && w > 0)) {
+                errors.push(`${prefix}: "widths" must be a non-empty array of positive integers (e.g. [320, 640, 1280]).`);
+            }
+        }
+
+        if (options.keepFullSize !== undefined && typeof options.keepFullSize !== 'boolean') {
+            errors.push(`${prefix}: "keepFullSize" must be true or false.`);
+        }
+
+        this.validateResizeOptions(options, errors, prefix, defaults);
+        this.validateMetadataPolicy(options.metadata, errors, prefix);
+        this.validateColorOptions(options, errors, prefix);
+        this.validateEncoderOptions(options.encoderOptions, errors, prefix);
+
+        if (options.targetSize !== undefined && parseByteSize(options.targetSize) === undefined) {
+            errors.push(`${prefix}: "targetSize" must be a byte count or a size like "150KB" / "1.5MB".`);
+        }
+
+        if (options.animation !== undefined && !['preserve', 'first-frame'].includes(options.animation)) {
+            errors.push(`${prefix}: "animation" must be "preserve" or "first-frame".`);
+        }
+
+        if (options.maxFrames !== undefined && (!Number.isInteger(options.maxFrames) || options.maxFrames < 1)) {
+            errors.push(`${prefix}: "maxFrames" must be a positive integer.`);
+        }
+
+        if (options.animatedAvif !== undefined && !['webp', 'first-frame'].includes(options.animatedAvif)) {
+            errors.push(`${prefix}: "animatedAvif" must be "webp" or "first-frame".`);
         }
 
-        return this._isConfigValid;
+        this.validateExclude(options.exclude, errors, prefix);
+        this.validateStorage(options, errors, prefix, defaults);
+
+        this.validateSizeGuard(options, errors, prefix);
+        this.validateFileSizeLimit(options, errors, prefix);
+        this.validateNaming(options, errors, prefix);
+        this.validateWatermark(options.watermark, errors, prefix, workspaceRoot);
+    }
+
+    /**
+     * Validate maxWidth/maxHeight/fit/position on a target or the config root.
+     * `defaults` supplies the root values a target falls back to.
+     */
+    private validateResizeOptions(options: any, errors: string[], prefix?: string, defaults?: any) {
+        const field = (key: string) => prefix ? `${prefix}: "${key}"` : `"${key}"`;
+        const validFits = ['inside', 'cover', 'contain'];
+        const validPositions = ['centre', 'attention', 'entropy'];
+
+        for (const key of ['maxWidth', 'maxHeight']) {
+            if (options[key] !== undefined && (!Number.isInteger(options[key]) || options[key] < 0)) {
+                errors.push(`${field(key)} must be a whole number of pixels (0 = no limit).`);
+            }
+        }
+
+        if (options.fit !== undefined) {
+            if (!validFits.includes(options.fit)) {
+                errors.push(`${field('fit')} must be one of: ${validFits.join(', ')}`);
+            } else if (options.fit !== 'inside' &&
+                (!(options.maxWidth ?? defaults?.maxWidth) || !(options.maxHeight ?? defaults?.maxHeight))) {
+                errors.push(`${field('fit')} "${options.fit}" requires both "maxWidth" and "maxHeight".`);
+            }
+        }
+
+        if (options.position !== undefined && !validPositions.includes(options.position)) {
+            errors.push(`${field('position')} must be one of: ${validPositions.join(', ')}`);
+        }
+    }
+
+    /**
+     * Validate storageMode, its directories and the keep/mirror flags on a target or the config root.
+     * A target that sets storageMode may take the directory it needs from `defaults`.
+     */
+    private validateStorage(options: any, errors: string[], prefix?: string, defaults?: any) {
+        const field = (key: string) => prefix ? `${prefix}: "${key}"` : `"${key}"`;
+        const validStorageModes = ['in-place', 'separate-output', 'separate-original'];
+
+        if (options.storageMode !== undefined && !validStorageModes.includes(options.storageMode)) {
+            errors.push(`${field('storageMode')}: "${options.storageMode}" is invalid. Use one of: ${validStorageModes.join(', ')}`);
+        }
+        for (const key of ['inPlaceKeepOriginal', 'preserveSubfolders']) {
+            if (options[key] !== undefined && typeof options[key] !== 'boolean') {
+                errors.push(`${field(key)} must be true or false.`);
+            }
+        }
+        for (const key of ['outputDirectory', 'originalDirectory']) {
+            if (options[key] !== undefined && typeof options[key] !== 'string') {
+                errors.push(`${field(key)} must be a string path.`);
+            }
+        }
+
+        // Check for required directories based on storageMode
+        if (options.storageMode === 'separate-output' && !(options.outputDirectory || defaults?.outputDirectory)) {
+            errors.push(`${field('storageMode')} is "separate-output" but "outputDirectory" is not set.`);
+        }
+        if (options.storageMode === 'separate-original' && !(options.originalDirectory || defaults?.originalDirectory)) {
+            errors.push(`${field('storageMode')} is "separate-original" but "originalDirectory" is not set.`);
+        }
+    }
+
+    private validateMetadataPolicy(policy: any, errors: string[], prefix?: string) {
+        const validPolicies = ['strip', 'keep', 'keep-icc-only'];
+        if (policy !== undefined && !validPolicies.includes(policy)) {
+            const field = prefix ? `${prefix}: "metadata"` : `"metadata"`;
+            errors.push(`${field} must be one of: ${validPolicies.join(', ')}`);
+        }
+    }
+
+    /**
+     * Validate background/colorspace/grayscale, including combinations that can't produce a sensible image
+     */
+    private validateColorOptions(options: any, errors: string[], prefix?: string) {
+        const field = (key: string) => prefix ? `${prefix}: "${key}"` : `"${key}"`;
+        const validColorSpaces = ['srgb', 'keep', 'p3'];
+        // Hex (#rgb / #rrggbb), rgb(r, g, b) or a CSS color name
+        const colorPattern = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|rgb\(\s*\d{1,3}\s*,\s*\d{1,3}\s*,\s*\d{1,3}\s*\)|[a-z]+)$/i;
+
+        if (options.background !== undefined &&
+            (typeof options.background !== 'string' || !colorPattern.test(options.background.trim()))) {
+            errors.push(`${field('background')} must be a color such as "#ffffff", "rgb(255, 255, 255)" or "white".`);
+        }
+        if (options.colorspace !== undefined && !validColorSpaces.includes(options.colorspace)) {
+            errors.push(`${field('colorspace')} must be one of: ${validColorSpaces.join(', ')}`);
+        }
+        if (options.grayscale !== undefined && typeof options.grayscale !== 'boolean') {
+            errors.push(`${field('grayscale')} must be true or false.`);
+        }
+        if (options.grayscale === true && (options.colorspace === 'p3' || options.colorspace === 'keep')) {
+            errors.push(`${field('grayscale')} can't be combined with "colorspace": "${options.colorspace}" (a gray image has no color profile to keep).`);
+        }
+    }
+
+    private validateExclude(exclude: any, errors: string[], prefix: string) {
+        if (exclude === undefined) return;
+        if (!Array.isArray(exclude) || !exclude.every((glob: any) => typeof glob === 'string' && glob.trim() !== '')) {
+            errors.push(`${prefix}: "exclude" must be an array of globs (e.g. ["public/vendor/", "**/*.min.png"]).`);
+        }
+    }
+
+    private validateSizeGuard(options: any, errors: string[], prefix?: string) {
+        const field = (key: string) => prefix ? `${prefix}: "${key}"` : `"${key}"`;
+        const validPolicies = ['keep-original', 'keep-smaller', 'always-convert'];
+
+        if (options.sizePolicy !== undefined && !validPolicies.includes(options.sizePolicy)) {
+            errors.push(`${field('sizePolicy')} must be one of: ${validPolicies.join(', ')}`);
+        }
+        if (options.minSavings !== undefined &&
+            (typeof options.minSavings !== 'number' || options.minSavings < 0 || options.minSavings >= 100)) {
+            errors.push(`${field('minSavings')} must be a percentage from 0 to 99.`);
+        }
+    }
+
+    private validateFileSizeLimit(options: any, errors: string[], prefix?: string) {
+        const field = (key: string) => prefix ? `${prefix}: "${key}"` : `"${key}"`;
+        const validPolicies = ['skip', 'downscale-to-fit', 'warn'];
+
+        if (options.maxFileSize !== undefined && (typeof options.maxFileSize !== 'number' || options.maxFileSize <= 0)) {
+            errors.push(`${field('maxFileSize')} must be a positive number (in bytes).`);
+        }
+        if (options.oversizePolicy !== undefined && !validPolicies.includes(options.oversizePolicy)) {
+            errors.push(`${field('oversizePolicy')} must be one of: ${validPolicies.join(', ')}`);
+        }
+    }
+
+    private validateNaming(options: any, errors: string[], prefix?: string) {
+        const field = (key: string) => prefix ? `${prefix}: "${key}"` : `"${key}"`;
+        const validPolicies = ['overwrite', 'suffix', 'fail'];
+
+        if (options.fileNameTemplate !== undefined) {
+            const problem = typeof options.fileNameTemplate === 'string'
+                ? FileNameService.validate(options.fileNameTemplate)
+                : 'must be a string such as "{slug}.{hash:8}"';
+            if (problem) errors.push(`${field('fileNameTemplate')} ${problem}.`);
+        }
+        if (options.collisionPolicy !== undefined && !validPolicies.includes(options.collisionPolicy)) {
+            errors.push(`${field('collisionPolicy')} must be one of: ${validPolicies.join(', ')}`);
+        }
+    }
+
+    /**
+     * Validate a target's watermark: exactly one of image/text, an existing image file, sane fractions
+     */
+    private validateWatermark(watermark: any, errors: string[], prefix: string, workspaceRoot: string) {
+        if (watermark === undefined) return;
+        const field = (key: string) => `${prefix}: "watermark.${key}"`;
+        const validPositions = ['top-left', 'top', 'top-right', 'left', 'centre', 'right', 'bottom-left', 'bottom', 'bottom-right'];
+
+        if (typeof watermark !== 'object' || watermark === null || Array.isArray(watermark)) {
+            errors.push(`${prefix}: "watermark" must be an object with "image" or "text".`);
+            return;
+        }
+
+        const hasImage = watermark.image !== undefined;
+        const hasText = watermark.text !== undefined;
+        if (hasImage === hasText) {
+            errors.push(`${prefix}: "watermark" needs exactly one of "image" or "text".`);
+        }
+        if (hasImage) {
+            if (typeof watermark.image !== 'string' || watermark.image.trim() === '') {
+                errors.push(`${field('image')} must be a file path.`);
+            } else if (!fs.existsSync(path.resolve(workspaceRoot, watermark.image))) {
+                errors.push(`${field('image')}: file "${watermark.image}" not found.`);
+            }
+        }
+        if (hasText && (typeof watermark.text !== 'string' || watermark.text.trim() === '')) {
+            errors.push(`${field('text')} must be a non-empty string.`);
+        }
+        for (const key of ['font', 'color']) {
+            if (watermark[key] !== undefined && typeof watermark[key] !== 'string') {
+                errors.push(`${field(key)} must be a string.`);
+            }
+        }
+        if (watermark.position !== undefined && !validPositions.includes(watermark.position)) {
+            errors.push(`${field('position')} must be one of: ${validPositions.join(', ')}`);
+        }
+        if (watermark.opacity !== undefined &&
+            (typeof watermark.opacity !== 'number' || watermark.opacity <= 0 || watermark.opacity > 1)) {
+            errors.push(`${field('opacity')} must be a number above 0 and up to 1.`);
+        }
+        if (watermark.scale !== undefined &&
+            (typeof watermark.scale !== 'number' || watermark.scale <= 0 || watermark.scale > 1)) {
+            errors.push(`${field('scale')} must be a fraction of the output width, above 0 and up to 1.`);
+        }
+        if (watermark.margin !== undefined &&
+            (typeof watermark.margin !== 'number' || watermark.margin < 0 || watermark.margin >= 0.5)) {
+            errors.push(`${field('margin')} must be a fraction of the output width from 0 to 0.49.`);
+        }
+    }
+
+    /**
+     * Validate an encoderOptions block: known formats, known keys, sane values
+     */
+    private validateEncoderOptions(encoderOptions: any, errors: string[], prefix?: string) {
+        if (encoderOptions === undefined) return;
+        const field = prefix ? `${prefix}: "encoderOptions"` : `"encoderOptions"`;
+
+        if (typeof encoderOptions !== 'object' || encoderOptions === null || Array.isArray(encoderOptions)) {
+            errors.push(`${field} must be an object keyed by format (webp, avif, jpeg, png).`);
+            return;
+        }
+
+        for (const [format, formatOptions] of Object.entries<any>(encoderOptions)) {
+            const rules = ENCODER_OPTION_RULES[format as ImageFormat];
+            if (!rules) {
+                errors.push(`${field}: unknown format "${format}". Use one of: ${Object.keys(ENCODER_OPTION_RULES).join(', ')}`);
+                continue;
+            }
+            if (typeof formatOptions !== 'object' || formatOptions === null) {
+                errors.push(`${field}.${format} must be an object.`);
+                continue;
+            }
+
+            for (const [key, value] of Object.entries<any>(formatOptions)) {
+                const rule = rules[key];
+                const name = `${field}.${format}.${key}`;
+                if (!rule) {
+                    errors.push(`${field}.${format}: unknown option "${key}". Allowed: ${Object.keys(rules).join(', ')}`);
+                } else if (rule === 'boolean') {
+                    if (typeof value !== 'boolean') errors.push(`${name} must be true or false.`);
+                } else if (typeof rule[0] === 'number') {
+                    const [min, max] = rule as [number, number];
+                    const isNumber = key === 'dither' ? typeof value === 'number' : Number.isInteger(value);
+                    if (!isNumber || value < min || value > max) errors.push(`${name} must be between ${min} and ${max}.`);
+                } else if (!(rule as string[]).includes(value)) {
+                    errors.push(`${name} must be one of: ${(rule as string[]).join(', ')}`);
+                }
+            }
+        }
     }
 
     /**
      * Show validation errors to user (called when processing is attempted with invalid config)
      */
-    public showConfigErrors() {
-        if (this._lastValidationErrors.length === 0) return;
+    public showConfigErrors(filePath?: string) {
+        const errors = this.getValidationErrors(filePath);
+        if (errors.length === 0) return;
         
-        const errorList = this._lastValidationErrors.map((e, i) => `${i + 1}. ${e}`).join('\n');
+        const errorList = errors.map((e, i) => `${i + 1}. ${e}`).join('\n');
+        // Name the folder when there is more than one upfly.config.json it could be
+        const folder = WorkspaceService.getFolders().length > 1 ? ` in ${WorkspaceService.getFolder(filePath)?.name}` : '';
         vscode.window.showWarningMessage(
-            `Upfly: Invalid config. Fix errors to enable conversion.`,
+            `Upfly: Invalid config${folder}. Fix errors to enable conversion.`,
             'Show Details'
         ).then(selection => {
             if (selection === 'Show Details') {
@@ -535,7 +1324,13 @@ export class ConfigService {
             return;
         }
 
-        const rootPath = vscode.workspace.workspaceFolders[0].uri.fsPath;
+        // Every root of a multi-root workspace has its own config
+        const folder = vscode.workspace.workspaceFolders.length > 1
+            ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Create upfly.config.json in' })
+            : vscode.workspace.workspaceFolders[0];
+        if (!folder) return;
+
+        const rootPath = folder.uri.fsPath;
         const configPath = path.join(rootPath, 'upfly.config.json');
 
         if (fs.existsSync(configPath)) {
@@ -562,6 +1357,7 @@ export class ConfigService {
 
   "outputDirectory": "./converted",       // Used and applicable only with "separate-output" mode
   "originalDirectory": "./originals",     // Usedand applicable only with "separate-original" mode
+  // Each watch target can override these (plus "preserveSubfolders": true to mirror its subfolders)
 
   
   // --- Cloud Upload (optional) ---
@@ -581,7 +1377,8 @@ export class ConfigService {
   //   "deleteLocalAfterUpload": false
   // },
 
-  "maxFileSize": 20000000       // Maximum file size in bytes (default: 20MB)
+  "maxFileSize": 20000000,      // Maximum source file size in bytes (default: 20MB)
+  "oversizePolicy": "skip"      // Larger files: "skip", "downscale-to-fit" or "warn"
 }
 `;
 
@@ -596,7 +1393,10 @@ export class ConfigService {
     }
     
     public dispose() {
-        this.configWatcher?.dispose();
+        this.configWatchers.forEach(watcher => watcher.dispose());
+        this.configWatchers.clear();
+        this.debounceTimers.forEach(timer => clearTimeout(timer));
+        this.folderListener?.dispose();
         this._onDidChangeConfig.dispose();
     }
 }
@@ -0,0 +1,80 @@
+/**
+ * ConversionLogService - Manages .upfly/conversions.json, an audit log of local conversions
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkspaceService } from './WorkspaceService';
+
+export interface ConversionRecord {
+    sourcePath: string;
+    sourceHash?: string;  // Content hash of the source, so unchanged saves are skipped after a reload (reprocessOnChange)
+    outputPaths: string[];
+    format: string;
+    quality: number;
+    ssim?: number;  // Measured when quality is 'auto'
+    size: number;  // Total bytes written
+    convertedAt: string;
+}
+
+interface ConversionsFile {
+    conversions: ConversionRecord[];
+}
+
+export class ConversionLogService {
+    /**
+     * conversions.json of the workspace folder owning `sourcePath`
+     */
+    private static getFilePath(sourcePath?: string): string {
+        return path.join(WorkspaceService.getUpflyDir(sourcePath), 'conversions.json');
+    }
+
+    /**
+     * Append a conversion record. Never throws - logging must not fail a conversion.
+     */
+    static append(record: ConversionRecord): void {
+        try {
+            const filePath = this.getFilePath(record.sourcePath);
+            let data: ConversionsFile = { conversions: [] };
+
+            try {
+                if (fs.existsSync(filePath)) {
+                    data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+                }
+            } catch (e) {
+                // Start fresh if parse fails
+                data = { conversions: [] };
+            }
+
+            data.conversions.push(record);
+            fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+        } catch (e) {
+            console.error('Upfly: Failed to write conversions.json', e);
+        }
+    }
+
+    /**
+     * Read all conversion records of a workspace folder (default: the first)
+     */
+    static read(sourcePath?: string): ConversionRecord[] {
+        try {
+            const filePath = this.getFilePath(sourcePath);
+            if (fs.existsSync(filePath)) {
+                const data: ConversionsFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+                return data.conversions || [];
+            }
+        } catch (e) {
+            console.error('Upfly: Failed to read conversions.json', e);
+        }
+
+        return [];
+    }
+
+    /**
+     * The most recent conversion of a source, if any
+     */
+    static findLatest(sourcePath: string): ConversionRecord | undefined {
+        const normalized = path.normalize(sourcePath);
+        return this.read(sourcePath).filter(r => path.normalize(r.sourcePath) === normalized).pop();
+    }
+}
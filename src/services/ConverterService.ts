@@ -1,24 +1,33 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import sharp from 'sharp';
 import { ProcessingCache } from './ProcessingCache';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+import { CollisionPolicy, ImageOptions, StorageOptions } from './ConfigService';
+import { ConversionLogService } from './ConversionLogService';
+import { HistoryService, OriginalAction, OverwrittenFile } from './HistoryService';
+import { PlaceholderService } from './PlaceholderService';
+import { EncoderService, EncodeResult, BufferOutput } from './EncoderService';
+import { encoderPool } from './EncoderPool';
+import { FileNameService } from './FileNameService';
+import { WorkspaceService } from './WorkspaceService';
 
-interface ConversionOptions {
-    format: 'webp' | 'png' | 'jpeg' | 'avif';
-    quality: number;
-    storageMode: 'in-place' | 'separate-output' | 'separate-original';
-    outputDirectory?: string;
-    originalDirectory?: string;
-    inPlaceKeepOriginal?: boolean;
+export interface ConversionOptions extends ImageOptions, StorageOptions {
     isCompression?: boolean;
+    quiet?: boolean;  // Bulk runs report one summary instead of a message per file
 }
 
+type QuietOptions = ImageOptions & Pick<ConversionOptions, 'quiet'>;
+
 export class ConverterService {
     private static readonly MAX_SUFFIX = 100;
     
-    private static getTempDir(): string {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    /**
+     * .upfly/temp of the workspace folder owning the file (same volume, so the final rename is atomic)
+     */
+    private static getTempDir(filePath: string): string {
+        const workspaceRoot = WorkspaceService.getRoot(filePath);
         if (!workspaceRoot) throw new Error('No workspace folder found');
         const tempDir = path.join(workspaceRoot, '.upfly', 'temp');
         if (!fs.existsSync(tempDir)) {
@@ -28,35 +37,132 @@ export class ConverterService {
     }
 
     static cleanupTempDir(): void {
-        try {
-            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            if (!workspaceRoot) return;
-            const tempDir = path.join(workspaceRoot, '.upfly', 'temp');
-            if (fs.existsSync(tempDir)) {
-                fs.rmSync(tempDir, { recursive: true, force: true });
+        for (const folder of WorkspaceService.getFolders()) {
+            try {
+                const tempDir = path.join(folder.uri.fsPath, '.upfly', 'temp');
+                if (fs.existsSync(tempDir)) {
+                    fs.rmSync(tempDir, { recursive: true, force: true });
+                }
+            } catch (e) {
+                console.error('Upfly: Failed to cleanup temp directory', e);
             }
-        } catch (e) {
-            console.error('Upfly: Failed to cleanup temp directory', e);
         }
     }
 
-    private static getUniqueOutputPath(dir: string, baseName: string, ext: string, isCompression: boolean): string {
-        const suffix = isCompression ? '_compressed' : '';
-        let candidate = path.join(dir, `${baseName}${suffix}.${ext}`);
-        
-        if (!fs.existsSync(candidate)) {
-            return candidate;
+    private static getUniqueOutputPath(
+        dir: string,
+        baseName: string,
+        ext: string,
+        isCompression: boolean,
+        collisionPolicy: CollisionPolicy = 'suffix'
+    ): string {
+        const suffix = this.pickOutputSuffix(s => [path.join(dir, `${baseName}${s}.${ext}`)], isCompression, collisionPolicy);
+        return path.join(dir, `${baseName}${suffix}.${ext}`);
+    }
+
+    /**
+     * One collision suffix for a whole set of outputs ('' when nothing is taken), so hero_copy1.webp
+     * comes with hero_copy1-640w.webp. `getPaths` lists the paths a suffix would produce.
+     */
+    private static pickOutputSuffix(
+        getPaths: (suffix: string) => string[],
+        isCompression: boolean,
+        collisionPolicy: CollisionPolicy = 'suffix'
+    ): string {
+        const baseSuffix = isCompression ? '_compressed' : '';
+        const taken = getPaths(baseSuffix).find(p => fs.existsSync(p));
+
+        if (!taken || collisionPolicy === 'overwrite') {
+            return baseSuffix;
+        }
+        if (collisionPolicy === 'fail') {
+            throw new Error(`${path.basename(taken)} already exists (collisionPolicy "fail")`);
         }
 
         for (let i = 1; i <= this.MAX_SUFFIX; i++) {
             const numberedSuffix = isCompression ? `_compressed${i}` : `_copy${i}`;
-            candidate = path.join(dir, `${baseName}${numberedSuffix}.${ext}`);
-            if (!fs.existsSync(candidate)) {
-                return candidate;
+            if (!getPaths(numberedSuffix).some(p => fs.existsSync(p))) {
+                return numberedSuffix;
             }
         }
 
-        throw new Error(`Too many copies exist for ${baseName}.${ext}`);
+        throw new Error(`Too many copies exist for ${path.basename(taken)}`);
+    }
+
+    /**
+     * outputDirectory / originalDirectory for a file (relative paths are from its workspace folder).
+     * With preserveSubfolders the file's subfolder below the target is recreated inside it.
+     */
+    private static getStorageDir(filePath: string, directory: string, options: ConversionOptions): string {
+        const fileDir = path.dirname(filePath);
+        const storageDir = path.isAbsolute(directory)
+            ? directory
+            : path.resolve(WorkspaceService.getRoot(filePath) || fileDir, directory);
+        if (!options.preserveSubfolders || !options.sourceRoot) {
+            return storageDir;
+        }
+
+        // Files outside the target folder (e.g. a right-click elsewhere) go straight into the directory
+        const subfolder = path.relative(options.sourceRoot, fileDir);
+        if (!subfolder || subfolder.startsWith('..') || path.isAbsolute(subfolder)) {
+            return storageDir;
+        }
+        return path.join(storageDir, subfolder);
+    }
+
+    /**
+     * Final paths of the full-size output and its variants (hero.webp -> hero-640w.webp), resolved after
+     * encoding ({hash} needs the output bytes). The collision policy covers the whole set, and the set is
+     * settled before anything is moved, so 'fail' never leaves it half-written.
+     */
+    private static async getOutputPaths(
+        filePath: string,
+        dir: string,
+        outputs: BufferOutput[],
+        options: ConversionOptions,
+        isInPlaceOptimization: boolean,
+        template?: string
+    ): Promise<{ fullSize: string; variants: Map<number, string> }> {
+        const sourceName = path.parse(filePath).name;
+        const fullSizeOutput = outputs.find(o => o.width === undefined);
+        const render = (output: BufferOutput) => FileNameService.render(template!, {
+            name: sourceName,
+            format: options.format,
+            buffer: output.buffer,
+            width: output.width
+        });
+        const withSuffix = (fileName: string, suffix: string) => {
+            const { name, ext } = path.parse(fileName);
+            return `${name}${suffix}${ext}`;
+        };
+
+        const fullSizeName = template ? await render(fullSizeOutput ?? outputs[0]) : `${sourceName}.${options.format}`;
+        // An in-place output that keeps the source's name replaces it, whatever else exists
+        const replacesSource = template
+            ? options.storageMode === 'in-place' && path.join(dir, fullSizeName) === filePath
+            : isInPlaceOptimization;
+
+        // Untemplated variants, and templates without {width}, are named after the full-size output
+        const variantNames = new Map<number, (suffix: string) => string>();
+        for (const output of outputs) {
+            if (output.width === undefined) continue;
+            const width = output.width;
+            const rendered = template ? await render(output) : fullSizeName;
+            variantNames.set(width, template && FileNameService.usesWidth(template)
+                ? suffix => withSuffix(rendered, suffix)
+                : suffix => this.getVariantFileName(withSuffix(rendered, suffix), width));
+        }
+
+        const getPaths = (suffix: string) => ({
+            fullSize: replacesSource ? filePath : path.join(dir, withSuffix(fullSizeName, suffix)),
+            variants: new Map([...variantNames].map(([width, name]) => [width, path.join(dir, name(suffix))]))
+        });
+        const suffix = this.pickOutputSuffix(s => {
+            const paths = getPaths(s);
+            const written = fullSizeOutput && !replacesSource ? [paths.fullSize] : [];
+            return [...written, ...paths.variants.values()];
+        }, options.isCompression ?? false, options.collisionPolicy);
+        return getPaths(suffix);
     }
 
     static async isValidImage(filePath: string): Promise<boolean> {
@@ -73,123 +179,350 @@ export class ConverterService {
     }
 
     /**
-     * Convert image to buffer (for cloud uploads - no disk write)
+     * Name of a responsive variant: hero.webp + 640 -> hero-640w.webp
      */
-    static async convertToBuffer(
-        filePath: string, 
-        format: 'webp' | 'png' | 'jpeg' | 'avif',
-        quality: number
-    ): Promise<{ buffer: Buffer; format: string; size: number }> {
-        const inputBuffer = fs.readFileSync(filePath);
-        
-            const outputBuffer = await sharp(inputBuffer)
-            .toFormat(format, { quality })
-            .toBuffer();
-
-        return {
-            buffer: outputBuffer,
-            format,
-            size: outputBuffer.length
-        };
+    static getVariantFileName(fileName: string, width: number): string {
+        const { name, ext } = path.parse(fileName);
+        return `${name}-${width}w${ext}`;
+    }
+
+
+    /**
+     * Size guard: is the converted full-size output small enough to replace the source?
+     * Always true for 'always-convert'; otherwise it must be smaller by at least minSavings percent.
+     */
+    static isWorthConverting(outputSize: number, originalSize: number, options: ImageOptions): boolean {
+        return EncoderService.isWorthConverting(outputSize, originalSize, options);
+    }
+
+    /**
+     * maxFileSize check for a source. Returns false if it must be skipped ('skip', the default).
+     * 'warn' lets it through with a warning, 'downscale-to-fit' lets the encoder shrink the outputs.
+     */
+    static async checkFileSize(filePath: string, options: QuietOptions): Promise<boolean> {
+        const limit = options.maxFileSize;
+        if (!limit) return true;
+        const { size } = await fs.promises.stat(filePath);
+        if (size <= limit) return true;
+
+        const name = path.basename(filePath);
+        const sizes = `${this.formatBytes(size)}, maxFileSize is ${this.formatBytes(limit)}`;
+        switch (options.oversizePolicy ?? 'skip') {
+            case 'warn':
+                this.warn(`${name} is over the size limit (${sizes}), processing it anyway.`, options.quiet);
+                return true;
+            case 'downscale-to-fit':
+                console.log(`Upfly: ${name} is over the size limit (${sizes}), downscaling to fit`);
+                return true;
+            default:
+                this.warn(
+                    `Skipped ${name} - too large (${sizes}). Set "oversizePolicy" to "downscale-to-fit" or "warn" to process it.`,
+                    options.quiet
+                );
+                return false;
+        }
+    }
+
+    /**
+     * A per-file warning: a popup, or only the log for quiet (bulk) runs
+     */
+    private static warn(message: string, quiet?: boolean): void {
+        if (quiet) {
+            console.log(`Upfly: ${message}`);
+        } else {
+            vscode.window.showWarningMessage(`Upfly: ${message}`);
+        }
+    }
+
+    /**
+     * Whether a source kept by the size guard is still copied to the output folder
+     * ('keep-smaller' in separate-output), so the output folder has every image
+     */
+    static copiesKeptSource(filePath: string, options: ConversionOptions): boolean {
+        if (options.sizePolicy === 'keep-original' || options.storageMode !== 'separate-output' || !options.outputDirectory) {
+            return false;
+        }
+        return this.getStorageDir(filePath, options.outputDirectory, options) !== path.dirname(filePath);
+    }
+
+    static formatBytes(bytes: number): string {
+        return EncoderService.formatBytes(bytes);
+    }
+
+    /**
+     * Read a whole file into memory (async, so the extension host isn't blocked).
+     * Conversions don't use this - the encoder workers read their sources themselves.
+     */
+    static async readFile(filePath: string): Promise<Buffer> {
+        return fs.promises.readFile(filePath);
+    }
+
+    static async writeFile(filePath: string, buffer: Buffer): Promise<void> {
+        await pipeline(Readable.from([buffer]), fs.createWriteStream(filePath));
+    }
+
+    /**
+     * Encode on the worker pool and show any warnings it produced
+     */
+    private static async encode(filePath: string, options: QuietOptions): Promise<EncodeResult> {
+        const result = await encoderPool.encode(filePath, options, path.basename(filePath));
+        for (const warning of result.warnings) {
+            this.warn(warning, options.quiet);
+        }
+        return result;
+    }
+
+    /**
+     * Convert image to buffers (for cloud uploads - no disk write).
+     * Returns the full-size output and/or one output per responsive width.
+     */
+    static async convertToBuffer(filePath: string, options: QuietOptions): Promise<EncodeResult> {
+        const result = await this.encode(filePath, options);
+
+        // Upload the source itself when converting would not make it smaller
+        const fullSize = result.outputs.find(o => o.width === undefined);
+        if (fullSize && result.keptSource) {
+            console.log(`Upfly: ${path.basename(filePath)} is not smaller as ${options.format} ` +
+                `(${this.formatBytes(result.sourceSize)} → ${this.formatBytes(fullSize.size)}), uploading original`);
+            fullSize.buffer = result.keptSource;
+            fullSize.size = fullSize.buffer.length;
+            fullSize.original = true;
+        }
+
+        return result;
     }
 
-    static async convertFile(filePath: string, options: ConversionOptions) {
+    /**
+     * Convert one file on disk. Resolves true if anything was written or moved.
+     */
+    static async convertFile(filePath: string, options: ConversionOptions): Promise<boolean> {
+        if (!(await this.checkFileSize(filePath, options))) return false;
+
         const fileDir = path.dirname(filePath);
         const fileExt = path.extname(filePath).toLowerCase().replace('.', '');
         const fileName = path.basename(filePath, path.extname(filePath));
         const normalizedInputExt = fileExt === 'jpg' ? 'jpeg' : fileExt;
-        const isSameFormat = normalizedInputExt === options.format;
         const isCompression = options.isCompression ?? false;
 
-        const tempDir = this.getTempDir();
-        const tempFileName = `${fileName}_${Date.now()}.${options.format}`;
-        const tempPath = path.join(tempDir, tempFileName);
+        const tempDir = this.getTempDir(filePath);
+        let tempPath: string | undefined;
 
         let finalOutputDir = fileDir;
         if (options.storageMode === 'separate-output' && options.outputDirectory) {
-            finalOutputDir = path.isAbsolute(options.outputDirectory) 
-                ? options.outputDirectory 
-                : path.resolve(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || fileDir, options.outputDirectory);
+            finalOutputDir = this.getStorageDir(filePath, options.outputDirectory, options);
             if (!fs.existsSync(finalOutputDir)) {
                 fs.mkdirSync(finalOutputDir, { recursive: true });
             }
         }
 
-        let finalOutputPath: string;
+        // Templated names are resolved after encoding, with the variants (see getOutputPaths).
+        // The compress command keeps its _compressed naming.
+        const template = isCompression ? undefined : options.fileNameTemplate;
+        const variantTempPaths = new Map<number, string>();
+
         try {
+            // The worker reads the file into a buffer first so sharp never locks it (EBUSY with WebP on Windows)
+            const encoded = await this.encode(filePath, options);
+            const { quality, ssim, sourceHash } = encoded;
+            // An animated source for an AVIF target comes back as WebP (animatedAvif)
+            options = { ...options, format: encoded.format };
+
+            const isSameFormat = normalizedInputExt === options.format;
             // For in-place optimization (same format, not compression cmd), we WANT to target the input file.
-            // We do NOT want getUniqueOutputPath to give us 'image_copy1.png'.
-            if (options.storageMode === 'in-place' && isSameFormat && !isCompression) {
-                finalOutputPath = filePath;
-            } else {
-                finalOutputPath = this.getUniqueOutputPath(finalOutputDir, fileName, options.format, isCompression);
+            // We do NOT want getOutputPaths to give us 'image_copy1.png'.
+            const isInPlaceOptimization = options.storageMode === 'in-place' && isSameFormat && !isCompression;
+            const tempFileName = `${fileName}_${Date.now()}.${options.format}`;
+            tempPath = path.join(tempDir, tempFileName);
+            const encodedFullSize = encoded.outputs.find(o => o.width === undefined);
+
+            // Size guard: keep the source untouched when the conversion doesn't save enough.
+            // Variants are still written - they are resized, not replacements.
+            const isWorthConverting = !encoded.keptSource;
+            const outputs = isWorthConverting ? encoded.outputs : encoded.outputs.filter(o => o !== encodedFullSize);
+            const fullSize = isWorthConverting ? encodedFullSize : undefined;
+            const writeFullSize = fullSize !== undefined;
+            const variantCount = outputs.length - (writeFullSize ? 1 : 0);
+
+            const { fullSize: finalOutputPath, variants: variantPaths } =
+                await this.getOutputPaths(filePath, finalOutputDir, outputs, options, isInPlaceOptimization, template);
+
+            // Write everything to temp first so a failure never touches the original
+            for (const output of outputs) {
+                if (output.width === undefined) {
+                    ProcessingCache.add(finalOutputPath);
+                    await this.writeFile(tempPath, output.buffer);
+                } else {
+                    const variantTempPath = path.join(tempDir, this.getVariantFileName(tempFileName, output.width));
+                    variantTempPaths.set(output.width, variantTempPath);
+                    await this.writeFile(variantTempPath, output.buffer);
+                }
             }
-        } catch (e: any) {
-            vscode.window.showErrorMessage(`Upfly: ${e.message}`);
-            return;
-        }
 
-        ProcessingCache.add(finalOutputPath);
+            const outputPaths = writeFullSize ? [finalOutputPath] : [];
+            const written: Array<{ outputPath: string; buffer: Buffer; width?: number }> =
+                fullSize ? [{ outputPath: finalOutputPath, buffer: fullSize.buffer }] : [];
+            // What happened to the source and the files we wrote over, for the history journal (undo)
+            const historyId = HistoryService.createId();
+            let originalAction: OriginalAction = 'kept';
+            let movedTo: string | undefined;
+            let stashPath: string | undefined;
+            const overwritten: OverwrittenFile[] = [];
 
-        try {
-            // Read file into buffer first to prevent Sharp from locking the file
-            // This fixes EBUSY issues with WebP files on Windows
-            const inputBuffer = fs.readFileSync(filePath);
-            
-            await sharp(inputBuffer)
-                .toFormat(options.format, { quality: options.quality })
-                .toFile(tempPath);
-
-            if (options.storageMode === 'separate-output') {
-                fs.renameSync(tempPath, finalOutputPath);
+            // Move a finished output into place. A file already there (collisionPolicy 'overwrite') is stashed first.
+            const place = async (tempFile: string, outputPath: string) => {
+                if (outputPath !== filePath && fs.existsSync(outputPath)) {
+                    const stashed = await HistoryService.stash(historyId, filePath, outputPath, 'overwritten', true);
+                    overwritten.push({ path: outputPath, stashPath: stashed });
+                }
+                fs.renameSync(tempFile, outputPath);
+            };
+            // Remove the source, keeping it in the stash when retention allows
+            const removeSource = async () => {
+                stashPath = await HistoryService.stash(historyId, filePath, filePath, 'original', true);
+                if (!stashPath) fs.unlinkSync(filePath);
+            };
+
+            if (!isWorthConverting) {
+                // 'keep-smaller' in separate-output still delivers a file: the (smaller) source itself
+                if (this.copiesKeptSource(filePath, options)) {
+                    const copyPath = this.getUniqueOutputPath(finalOutputDir, fileName, fileExt, false);
+                    const copyBuffer = encoded.keptSource!;
+                    ProcessingCache.add(copyPath);
+                    await this.writeFile(copyPath, copyBuffer);
+                    outputPaths.push(copyPath);
+                    written.push({ outputPath: copyPath, buffer: copyBuffer });
+                }
+            }
+            else if (options.storageMode === 'separate-output') {
+                if (writeFullSize) await place(tempPath, finalOutputPath);
             } 
             else if (options.storageMode === 'separate-original') {
-                fs.renameSync(tempPath, finalOutputPath);
+                if (writeFullSize) await place(tempPath, finalOutputPath);
 
                 if (options.originalDirectory) {
-                    const originalDir = path.isAbsolute(options.originalDirectory)
-                        ? options.originalDirectory
-                        : path.resolve(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || fileDir, options.originalDirectory);
+                    const originalDir = this.getStorageDir(filePath, options.originalDirectory, options);
                     if (!fs.existsSync(originalDir)) {
                         fs.mkdirSync(originalDir, { recursive: true });
                     }
                     const movedOriginalPath = path.join(originalDir, path.basename(filePath));
                     ProcessingCache.add(movedOriginalPath);
                     fs.renameSync(filePath, movedOriginalPath);
+                    originalAction = 'moved';
+                    movedTo = movedOriginalPath;
+                    stashPath = await HistoryService.stash(historyId, filePath, movedTo, 'original', false);
                 }
             } 
             else if (options.storageMode === 'in-place') {
-                if (isSameFormat && !isCompression) {
+                if (finalOutputPath === filePath) {
                     if (options.inPlaceKeepOriginal) {
                         // Rename Original -> Backup
                         // image.png -> image_original.png (or _copy1 if exists)
                         const originalBackupPath = this.getUniqueOutputPath(fileDir, `${fileName}_original`, fileExt, false);
                         ProcessingCache.add(originalBackupPath);
                         fs.renameSync(filePath, originalBackupPath);
+                        originalAction = 'moved';
+                        movedTo = originalBackupPath;
+                        stashPath = await HistoryService.stash(historyId, filePath, movedTo, 'original', false);
                     } else {
                         // Delete Original
-                        fs.unlinkSync(filePath);
+                        await removeSource();
+                        originalAction = writeFullSize ? 'replaced' : 'deleted';
                     }
                     // Rename Temp -> Original (image.png)
-                    fs.renameSync(tempPath, finalOutputPath);
+                    if (writeFullSize) fs.renameSync(tempPath, finalOutputPath);
                 } else {
                     // Normal conversion (png -> webp) OR Compression command
-                    fs.renameSync(tempPath, finalOutputPath);
+                    if (writeFullSize) await place(tempPath, finalOutputPath);
                     if (!options.inPlaceKeepOriginal && filePath !== finalOutputPath) {
-                        fs.unlinkSync(filePath);
+                        await removeSource();
+                        originalAction = 'deleted';
                     }
                 }
             }
 
-            const outputFileName = path.basename(finalOutputPath);
-            vscode.window.showInformationMessage(`Upfly: Converted ${fileName} → ${outputFileName}`);
+            // Variants sit next to the full-size output: hero.webp -> hero-640w.webp
+            for (const [width, variantTempPath] of variantTempPaths) {
+                const variantPath = variantPaths.get(width)!;
+                ProcessingCache.add(variantPath);
+                await place(variantTempPath, variantPath);
+                outputPaths.push(variantPath);
+                written.push({ outputPath: variantPath, buffer: outputs.find(o => o.width === width)!.buffer, width });
+            }
+
+            // Late change events for what we just wrote must not be reprocessed (reprocessOnChange)
+            for (const { outputPath, buffer } of written) {
+                ProcessingCache.rememberContent(outputPath, ProcessingCache.hash(buffer));
+            }
+            if (movedTo) {
+                ProcessingCache.rememberContent(movedTo, sourceHash);
+            }
+
+            // Intrinsic size + blur placeholder per output (.upfly/placeholders.json)
+            await PlaceholderService.record(written);
+
+            if (outputPaths.length > 0) {
+                ConversionLogService.append({
+                    sourcePath: filePath,
+                    sourceHash,
+                    outputPaths,
+                    format: options.format,
+                    quality,
+                    ssim,
+                    size: outputs.reduce((total, o) => total + o.size, 0),
+                    convertedAt: new Date().toISOString()
+                });
+            }
+
+            if (outputPaths.length > 0 || originalAction !== 'kept') {
+                HistoryService.record({
+                    id: historyId,
+                    sourcePath: filePath,
+                    outputPaths,
+                    original: { action: originalAction, movedTo },
+                    stashPath,
+                    overwritten: overwritten.length > 0 ? overwritten : undefined,
+                    quality,
+                    ssim
+                });
+            }
+
+            const originalSize = this.formatBytes(encoded.sourceSize);
+            let qualityNote = '';
+            if (ssim !== undefined) {
+                qualityNote = `, quality ${quality}, SSIM ${ssim.toFixed(3)}`;
+            } else if (options.targetSize !== undefined) {
+                qualityNote = `, quality ${quality}`;
+            }
+
+            if (options.quiet) {
+                // Summarized by the caller
+            } else if (!isWorthConverting && encodedFullSize) {
+                const savingsNote = options.minSavings ? `, needs ${options.minSavings}% savings` : '';
+                const variantNote = variantCount > 0 ? ` Wrote ${variantCount} sizes.` : '';
+                vscode.window.showInformationMessage(
+                    `Upfly: Kept ${path.basename(filePath)} - ${options.format} would be ${this.formatBytes(encodedFullSize.size)} ` +
+                    `vs ${originalSize} original${savingsNote}.${variantNote}`
+                );
+            } else {
+                const outputFileName = writeFullSize ? path.basename(finalOutputPath) : `${variantCount} sizes`;
+                const variantNote = writeFullSize && variantCount > 0 ? ` (+${variantCount} sizes)` : '';
+                const sizeNote = fullSize ? ` (${originalSize} → ${this.formatBytes(fullSize.size)}${qualityNote})` : '';
+                const downscaleNote = outputs.some(o => o.downscaledTo !== undefined)
+                    ? `, downscaled to fit maxFileSize (${this.formatBytes(options.maxFileSize!)})`
+                    : '';
+                vscode.window.showInformationMessage(`Upfly: Converted ${fileName} → ${outputFileName}${variantNote}${sizeNote}${downscaleNote}`);
+            }
+            return outputPaths.length > 0 || originalAction !== 'kept';
 
         } catch (error: any) {
-            if (fs.existsSync(tempPath)) {
-                try { fs.unlinkSync(tempPath); } catch {}
+            for (const leftover of [tempPath, ...variantTempPaths.values()]) {
+                if (leftover && fs.existsSync(leftover)) {
+                    try { fs.unlinkSync(leftover); } catch {}
+                }
             }
             console.error('Upfly: Conversion Error', error);
             vscode.window.showErrorMessage(`Upfly Conversion Failed: ${error.message}`);
+            return false;
         }
     }
 }
@@ -0,0 +1,250 @@
+/**
+ * DuplicateService - Perceptual hashing (pHash) to find duplicate and near-duplicate images
+ *
+ * Hashes are computed from pixels, so a .png and its .webp twin (or a resized copy) match.
+ * Results are cached per file (path + mtime + size), so repeated scans only hash what changed.
+ * The cache keeps the most recently used hashes and doubles as the index the watch-time check
+ * compares new images against.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { ConfigService } from './ConfigService';
+import { WorkspaceService } from './WorkspaceService';
+
+export interface HashedImage {
+    path: string;
+    hash: string;  // 64-bit pHash as 16 hex chars
+    size: number;
+    width?: number;
+    height?: number;
+}
+
+export interface DuplicateGroup {
+    files: HashedImage[];
+    exact: boolean;  // Every pair has an identical hash
+}
+
+interface CacheEntry {
+    mtimeMs: number;
+    size: number;
+    image: HashedImage;
+}
+
+export class DuplicateService {
+    private static readonly EXTENSIONS_GLOB = '{png,jpg,jpeg,webp,avif,tiff,gif}';
+    private static readonly DEFAULT_THRESHOLD = 8;
+    // pHash: DCT of a 32x32 grayscale thumbnail, keeping the 8x8 lowest frequencies
+    private static readonly DCT_SIZE = 32;
+    private static readonly HASH_SIZE = 8;
+    private static readonly COSINES = Array.from({ length: DuplicateService.HASH_SIZE }, (_, k) =>
+        Array.from({ length: DuplicateService.DCT_SIZE }, (_, n) => Math.cos(Math.PI * (n + 0.5) * k / DuplicateService.DCT_SIZE))
+    );
+
+    // Least recently used hashes are evicted past this many files
+    private static readonly MAX_CACHED = 1000;
+
+    private static cache = new Map<string, CacheEntry>();
+    private static indexing?: Promise<void>;
+
+    static getThreshold(filePath?: string): number {
+        const threshold = ConfigService.getInstance().get<number | undefined>('duplicateThreshold', filePath);
+        return typeof threshold === 'number' ? threshold : this.DEFAULT_THRESHOLD;
+    }
+
+    /**
+     * pHash of an image (first frame for animations). Transparency is flattened onto white.
+     * Robust to re-encoding, format changes and resizing, unlike a byte hash.
+     */
+    static async computeHash(input: Buffer): Promise<string> {
+        const { DCT_SIZE: N, HASH_SIZE: K, COSINES } = this;
+        const pixels = await sharp(input)
+            .rotate()
+            .flatten({ background: '#ffffff' })
+            .greyscale()
+            .resize(N, N, { fit: 'fill' })
+            .raw()
+            .toBuffer();
+
+        // Separable 2D DCT-II, only the K lowest frequencies in each direction
+        const rows: number[][] = [];
+        for (let y = 0; y < N; y++) {
+            rows.push(COSINES.map(cosine => cosine.reduce((sum, c, x) => sum + pixels[y * N + x] * c, 0)));
+        }
+        const coefficients: number[] = [];
+        for (let v = 0; v < K; v++) {
+            for (let u = 0; u < K; u++) {
+                coefficients.push(rows.reduce((sum, row, y) => sum + row[u] * COSINES[v][y], 0));
+            }
+        }
+
+        // Bits are set where a coefficient is above the median (the DC term is left out of the median)
+        const median = [...coefficients.slice(1)].sort((a, b) => a - b)[Math.floor((coefficients.length - 1) / 2)];
+        let hash = 0n;
+        for (const coefficient of coefficients) {
+            hash = (hash << 1n) | (coefficient > median ? 1n : 0n);
+        }
+        return hash.toString(16).padStart(16, '0');
+    }
+
+    static distance(a: string, b: string): number {
+        let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+        let bits = 0;
+        while (diff > 0n) {
+            bits += Number(diff & 1n);
+            diff >>= 1n;
+        }
+        return bits;
+    }
+
+    /**
+     * All images under the watch targets (and cloud targets), minus `exclude` globs and .upflyignore
+     */
+    static async findImages(token?: vscode.CancellationToken): Promise<string[]> {
+        const config = ConfigService.getInstance();
+        const files = new Set<string>();
+
+        // Each workspace folder scans its own targets
+        for (const workspaceFolder of WorkspaceService.getFolders()) {
+            for (const target of config.getWatchedPaths(workspaceFolder.uri.fsPath)) {
+                const folder = target.replace(/\\/g, '/').replace(/^\.\//, '').replace(/^\/+|\/+$/g, '');
+                const glob = folder && folder !== '.' ? `${folder}/**/*.${this.EXTENSIONS_GLOB}` : `**/*.${this.EXTENSIONS_GLOB}`;
+                const uris = await vscode.workspace.findFiles(
+                    new vscode.RelativePattern(workspaceFolder, glob),
+                    '**/{node_modules,.upfly,.git}/**',
+                    undefined,
+                    token
+                );
+                uris.filter(uri => config.isWatched(uri.fsPath)).forEach(uri => files.add(uri.fsPath));
+            }
+        }
+        return [...files].sort();
+    }
+
+    /**
+     * Hash one file, reusing the cached hash if it hasn't changed. Returns undefined for unreadable images.
+     */
+    static async hashFile(filePath: string): Promise<HashedImage | undefined> {
+        try {
+            const stats = await fs.promises.stat(filePath);
+            const cached = this.cache.get(filePath);
+            if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+                this.remember(filePath, cached);
+                return cached.image;
+            }
+
+            const buffer = await fs.promises.readFile(filePath);
+            const metadata = await sharp(buffer).metadata();
+            const isRotated = (metadata.orientation ?? 1) >= 5;
+            const image: HashedImage = {
+                path: filePath,
+                hash: await this.computeHash(buffer),
+                size: stats.size,
+                width: isRotated ? metadata.height : metadata.width,
+                height: isRotated ? metadata.width : metadata.pageHeight ?? metadata.height
+            };
+            this.remember(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, image });
+            return image;
+        } catch (error) {
+            console.log(`Upfly: Could not hash ${filePath}`, error);
+            this.cache.delete(filePath);
+            return undefined;
+        }
+    }
+
+    private static remember(filePath: string, entry: CacheEntry): void {
+        // Re-inserting keeps the Map in least-recently-used order
+        this.cache.delete(filePath);
+        this.cache.set(filePath, entry);
+        if (this.cache.size > this.MAX_CACHED) {
+            this.cache.delete(this.cache.keys().next().value!);
+        }
+    }
+
+    /**
+     * Hash the existing images once, in the background, so the watch-time check has something to
+     * compare against. Stops at MAX_CACHED files; new images join the index as they are checked.
+     */
+    static buildIndex(): Promise<void> {
+        this.indexing ??= (async () => {
+            const files = await this.findImages();
+            for (const file of files.slice(0, this.MAX_CACHED)) {
+                await this.hashFile(file);
+            }
+        })().catch(error => console.error('Upfly: Could not index images for duplicate checks', error));
+        return this.indexing;
+    }
+
+    /**
+     * Group images whose hashes are within `threshold` bits (transitively)
+     */
+    static group(images: HashedImage[], threshold: number): DuplicateGroup[] {
+        const parent = images.map((_, i) => i);
+        const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+        for (let i = 0; i < images.length; i++) {
+            for (let j = i + 1; j < images.length; j++) {
+                if (this.distance(images[i].hash, images[j].hash) <= threshold) {
+                    parent[find(j)] = find(i);
+                }
+            }
+        }
+
+        const groups = new Map<number, HashedImage[]>();
+        images.forEach((image, i) => {
+            const root = find(i);
+            groups.set(root, [...(groups.get(root) ?? []), image]);
+        });
+
+        return [...groups.values()]
+            .filter(files => files.length > 1)
+            .map(files => ({
+                // Largest first: usually the one worth keeping
+                files: files.sort((a, b) => (b.width ?? 0) * (b.height ?? 0) - (a.width ?? 0) * (a.height ?? 0) || b.size - a.size),
+                exact: files.every(file => file.hash === files[0].hash)
+            }))
+            .sort((a, b) => b.files.length - a.files.length);
+    }
+
+    /**
+     * Scan the watch targets and group duplicates
+     */
+    static async findDuplicates(
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<DuplicateGroup[] | undefined> {
+        const files = await this.findImages(token);
+        const images: HashedImage[] = [];
+
+        for (const [index, file] of files.entries()) {
+            if (token?.isCancellationRequested) return undefined;
+            progress?.report({ message: `${index + 1}/${files.length} ${path.basename(file)}`, increment: 100 / files.length });
+            const image = await this.hashFile(file);
+            if (image) images.push(image);
+        }
+
+        // Files that are gone (or no longer watched) can't be duplicates any more
+        const found = new Set(files);
+        for (const filePath of [...this.cache.keys()]) {
+            if (!found.has(filePath)) this.cache.delete(filePath);
+        }
+        return this.group(images, this.getThreshold());
+    }
+
+    /**
+     * Indexed images that look like `image` (for the watch-time check). Only compares hashes
+     * already in memory - nothing is read or decoded.
+     */
+    static findMatches(image: HashedImage): HashedImage[] {
+        const threshold = this.getThreshold(image.path);
+        return [...this.cache.values()]
+            .map(entry => entry.image)
+            .filter(other => other.path !== image.path && this.distance(image.hash, other.hash) <= threshold);
+    }
+
+    static forget(filePath: string): void {
+        this.cache.delete(filePath);
+    }
+}
@@ -0,0 +1,273 @@
+/**
+ * EncoderPool - Runs EncoderService.encode on worker threads
+ *
+ * - One worker per CPU core (one core is left for the editor) unless `workerThreads` is set
+ * - Workers read the source themselves: the host only passes the path, and encoded outputs are
+ *   transferred back rather than copied
+ * - Decoding in flight is capped by `maxDecodeMemoryMB`. Each worker reads the image header and
+ *   reports the estimated decode cost, then waits for the host to admit it. An image larger than
+ *   the cap still runs, but on its own.
+ * - Falls back to encoding on the extension host if the worker script is missing
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import sharp from 'sharp';
+import { ImageOptions } from './ConfigService';
+import { EncoderService, EncodeResult } from './EncoderService';
+
+// Messages exchanged with src/workers/encodeWorker.ts
+export interface EncodeRequest {
+    id: number;
+    filePath: string;
+    options: ImageOptions;
+    label: string;
+}
+
+// Host -> worker: encode a file, or go ahead and decode it once its cost fits under the cap
+export type EncodeMessage =
+    | { type: 'encode'; request: EncodeRequest }
+    | { type: 'start'; id: number };
+
+// Worker -> host: the decode cost (sent before decoding), then the result or error
+export type EncodeResponse =
+    | { id: number; cost: number }
+    | { id: number; result: EncodeResult }
+    | { id: number; error: string };
+
+interface PendingEncode {
+    request: EncodeRequest;
+    resolve: (result: EncodeResult) => void;
+    reject: (error: Error) => void;
+    cost?: number;  // Estimated decode bytes, counted against the cap while admitted
+    admitted?: boolean;
+}
+
+// The task a worker is busy with and how to settle its run()
+interface WorkerJob {
+    task: PendingEncode;
+    resolve: (result: EncodeResult) => void;
+    reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    job?: WorkerJob;
+}
+
+interface Admission {
+    task: PendingEncode;
+    start: () => void;
+}
+
+export class EncoderPool {
+    private static readonly DEFAULT_MEMORY_LIMIT_MB = 512;
+    // Bundled next to dist/extension.js by esbuild
+    private static readonly WORKER_PATH = path.join(__dirname, 'workers', 'encodeWorker.js');
+
+    private workers: PoolWorker[] = [];
+    private queue: PendingEncode[] = [];
+    private active = 0;
+    // Encodes whose header has been read, waiting for room under the memory cap (FIFO)
+    private admissions: Admission[] = [];
+    private decoding = 0;
+    private inFlightBytes = 0;
+    private nextId = 0;
+    private size = EncoderPool.getDefaultSize();
+    private memoryLimit = EncoderPool.DEFAULT_MEMORY_LIMIT_MB * 1024 * 1024;
+    private workersAvailable = fs.existsSync(EncoderPool.WORKER_PATH);
+
+    static getDefaultSize(): number {
+        return Math.max(1, os.cpus().length - 1);
+    }
+
+    /**
+     * How many encodes run at once
+     */
+    get concurrency(): number {
+        return this.size;
+    }
+
+    /**
+     * Apply the `workerThreads` / `maxDecodeMemoryMB` settings (0 or unset = defaults)
+     */
+    configure(workerThreads?: number, maxDecodeMemoryMB?: number): void {
+        this.size = workerThreads && workerThreads > 0 ? Math.floor(workerThreads) : EncoderPool.getDefaultSize();
+        const limitMB = maxDecodeMemoryMB && maxDecodeMemoryMB > 0 ? maxDecodeMemoryMB : EncoderPool.DEFAULT_MEMORY_LIMIT_MB;
+        this.memoryLimit = limitMB * 1024 * 1024;
+
+        // Stop idle workers beyond the new size (busy ones stop when they finish)
+        for (const slot of this.workers.filter(w => !w.job).slice(0, Math.max(0, this.workers.length - this.size))) {
+            this.stopWorker(slot);
+        }
+        this.admit();
+        this.pump();
+    }
+
+    /**
+     * Encode the image at filePath. The file is read by the worker, not the extension host.
+     */
+    encode(filePath: string, options: ImageOptions, label: string): Promise<EncodeResult> {
+        return new Promise((resolve, reject) => {
+            this.queue.push({ request: { id: this.nextId++, filePath, options, label }, resolve, reject });
+            this.pump();
+        });
+    }
+
+    private pump(): void {
+        while (this.queue.length > 0 && this.active < this.size) {
+            const task = this.queue.shift()!;
+            this.active++;
+
+            this.run(task)
+                .then(task.resolve, task.reject)
+                .finally(() => {
+                    this.active--;
+                    this.release(task);
+                    this.pump();
+                });
+        }
+    }
+
+    private run(task: PendingEncode): Promise<EncodeResult> {
+        const slot = this.getIdleWorker();
+        if (!slot) return this.runOnMainThread(task);
+
+        return new Promise((resolve, reject) => {
+            slot.job = { task, resolve, reject };
+            const message: EncodeMessage = { type: 'encode', request: task.request };
+            slot.worker.postMessage(message);
+        });
+    }
+
+    /**
+     * Fallback without workers: the same admission, with the header read here
+     */
+    private async runOnMainThread(task: PendingEncode): Promise<EncodeResult> {
+        const { filePath, options, label } = task.request;
+        const input = await fs.promises.readFile(filePath);
+        const cost = EncoderService.estimateDecodeBytes(await sharp(input).metadata(), options);
+        await new Promise<void>(start => this.waitForRoom(task, cost, start));
+        return EncoderService.encode(input, options, label);
+    }
+
+    /**
+     * Queue a task for the memory cap. Strict FIFO: a large image waits for room instead of being
+     * overtaken forever.
+     */
+    private waitForRoom(task: PendingEncode, cost: number, start: () => void): void {
+        task.cost = cost;
+        this.admissions.push({
+            task,
+            start: () => {
+                task.admitted = true;
+                start();
+            }
+        });
+        this.admit();
+    }
+
+    private admit(): void {
+        while (this.admissions.length > 0) {
+            const next = this.admissions[0];
+            const cost = next.task.cost ?? 0;
+            if (this.decoding > 0 && this.inFlightBytes + cost > this.memoryLimit) return;
+
+            this.admissions.shift();
+            this.decoding++;
+            this.inFlightBytes += cost;
+            next.start();
+        }
+    }
+
+    /**
+     * Give back a finished (or failed) task's share of the cap
+     */
+    private release(task: PendingEncode): void {
+        if (!task.admitted) return;
+        task.admitted = false;
+        this.decoding--;
+        this.inFlightBytes -= task.cost ?? 0;
+        this.admit();
+    }
+
+    private getIdleWorker(): PoolWorker | undefined {
+        const idle = this.workers.find(w => !w.job);
+        if (idle || !this.workersAvailable) return idle;
+
+        try {
+            const slot: PoolWorker = { worker: new Worker(EncoderPool.WORKER_PATH) };
+            slot.worker.on('message', (response: EncodeResponse) => this.onMessage(slot, response));
+            slot.worker.on('error', error => this.onExit(slot, error));
+            slot.worker.on('exit', code => this.onExit(slot, new Error(`Encoder worker stopped (exit code ${code})`)));
+            this.workers.push(slot);
+            return slot;
+        } catch (error) {
+            console.error('Upfly: Could not start encoder worker, encoding on the main thread', error);
+            this.workersAvailable = false;
+            return undefined;
+        }
+    }
+
+    private onMessage(slot: PoolWorker, response: EncodeResponse): void {
+        const job = slot.job;
+        if (!job || job.task.request.id !== response.id) return;
+
+        if ('cost' in response) {
+            this.waitForRoom(job.task, response.cost, () => {
+                const message: EncodeMessage = { type: 'start', id: response.id };
+                slot.worker.postMessage(message);
+            });
+            return;
+        }
+
+        slot.job = undefined;
+        if ('error' in response) {
+            job.reject(new Error(response.error));
+        } else {
+            // Buffers arrive as plain Uint8Arrays after the structured clone
+            const toBuffer = (data: Uint8Array) => Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+            const outputs = response.result.outputs.map(output => ({ ...output, buffer: toBuffer(output.buffer) }));
+            const keptSource = response.result.keptSource && toBuffer(response.result.keptSource);
+            job.resolve({ ...response.result, outputs, keptSource });
+        }
+
+        if (this.workers.length > this.size) {
+            this.stopWorker(slot);
+        }
+    }
+
+    private onExit(slot: PoolWorker, error: Error): void {
+        if (!this.workers.includes(slot)) return;
+        this.workers = this.workers.filter(w => w !== slot);
+        const job = slot.job;
+        if (job) {
+            console.error('Upfly: Encoder worker failed', error);
+            // A task still waiting for room must not be admitted later
+            this.admissions = this.admissions.filter(a => a.task !== job.task);
+            slot.job = undefined;
+            job.reject(error);
+        }
+    }
+
+    private stopWorker(slot: PoolWorker): void {
+        this.workers = this.workers.filter(w => w !== slot);
+        slot.worker.terminate();
+    }
+
+    dispose(): void {
+        for (const task of this.queue) {
+            task.reject(new Error('Encoder pool stopped'));
+        }
+        this.queue = [];
+        this.admissions = [];
+        for (const slot of [...this.workers]) {
+            slot.job?.reject(new Error('Encoder pool stopped'));
+            this.stopWorker(slot);
+        }
+    }
+}
+
+export const encoderPool = new EncoderPool();
@@ -0,0 +1,604 @@
+/**
+ * EncoderService - The sharp side of a conversion: buffer in, encoded outputs out
+ *
+ * Kept free of the vscode API so it can run inside the encoder worker threads (EncoderPool).
+ * Anything the user should see comes back as `warnings` for the caller to show.
+ */
+
+import sharp from 'sharp';
+import { ImageFormat, ImageOptions } from './ConfigService';
+import { MetadataService } from './MetadataService';
+import { ProcessingCache } from './ProcessingCache';
+import { SimilarityService } from './SimilarityService';
+import { WatermarkService } from './WatermarkService';
+
+// Options plus what we learned about the source (decoded as an animation or not)
+// and the watermark overlays prepared for each output width (0 = full size)
+type SourceOptions = ImageOptions & { animated?: boolean; watermarkOverlays?: Map<number, sharp.OverlayOptions[]> };
+// Source options with a concrete quality ('auto' resolved)
+type EncodeOptions = SourceOptions & { quality: number };
+
+// A single encoded output: the full-size image (no width) or one responsive variant
+export interface BufferOutput {
+    buffer: Buffer;
+    size: number;
+    width?: number;
+    original?: boolean;  // Source bytes kept because the conversion didn't save enough (sizePolicy)
+    downscaledTo?: number;  // Pixel width it was shrunk to by oversizePolicy 'downscale-to-fit'
+}
+
+// Everything produced for one source image
+export interface EncodeResult {
+    format: ImageFormat;
+    outputs: BufferOutput[];
+    quality: number;  // Quality actually used (chosen by 'auto' or lowered by targetSize)
+    ssim?: number;  // Similarity to the source, measured when quality is 'auto'
+    warnings: string[];  // Messages for the user (shown by the caller)
+    sourceSize: number;  // Bytes of the source file
+    sourceHash: string;  // Content hash of the source (ProcessingCache.hash), so callers never re-read it
+    keptSource?: Buffer;  // The source as it may be shipped (sanitizeSource), when the size guard keeps it
+}
+
+/**
+ * Parse a byte size such as 150000, "150KB" or "1.5MB" (1 KB = 1024 bytes).
+ * Returns undefined if the value is not a valid size.
+ */
+export function parseByteSize(value: string | number): number | undefined {
+    if (typeof value === 'number') {
+        return value > 0 ? Math.floor(value) : undefined;
+    }
+    const match = /^\s*(\d+(?:\.\d+)?)\s*(B|KB|MB)?\s*$/i.exec(String(value));
+    if (!match) return undefined;
+
+    const units: Record<string, number> = { B: 1, KB: 1024, MB: 1024 * 1024 };
+    const bytes = Math.floor(parseFloat(match[1]) * units[(match[2] || 'B').toUpperCase()]);
+    return bytes > 0 ? bytes : undefined;
+}
+
+export class EncoderService {
+    // Quality range searched by targetSize and 'auto'
+    private static readonly MIN_SEARCH_QUALITY = 10;
+    private static readonly MAX_AUTO_QUALITY = 95;
+    private static readonly DEFAULT_SSIM_THRESHOLD = 0.97;
+    private static readonly DEFAULT_MAX_FRAMES = 300;
+    // Frames of an animation scored by 'auto' quality (spread from first to last)
+    private static readonly SSIM_SAMPLE_FRAMES = 5;
+    // Formats sharp can write as animations (animated AVIF isn't supported by libheif here)
+    private static readonly ANIMATED_FORMATS = ['webp', 'gif'];
+    // Decoded pixels are RGBA at most
+    private static readonly BYTES_PER_PIXEL = 4;
+    // 'downscale-to-fit' gives up after this many re-encodes, or at this width
+    private static readonly MAX_DOWNSCALE_STEPS = 8;
+    private static readonly MIN_DOWNSCALE_WIDTH = 16;
+
+    static formatBytes(bytes: number): string {
+        if (bytes < 1024) return `${bytes} B`;
+        if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+        return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+    }
+
+    /**
+     * Size guard: is the converted full-size output small enough to replace the source?
+     * Always true for 'always-convert'; otherwise it must be smaller by at least minSavings percent.
+     */
+    static isWorthConverting(outputSize: number, originalSize: number, options: ImageOptions): boolean {
+        if ((options.sizePolicy ?? 'keep-smaller') === 'always-convert') return true;
+        // The unmarked source is never an acceptable stand-in for a watermarked output
+        if (options.watermark) return true;
+        // Nor is a source too large to keep, once its outputs were downscaled to fit
+        if (options.oversizePolicy === 'downscale-to-fit' && options.maxFileSize && originalSize > options.maxFileSize) return true;
+        const savings = (originalSize - outputSize) / originalSize * 100;
+        return outputSize < originalSize && savings >= (options.minSavings ?? 0);
+    }
+
+    /**
+     * Approximate memory needed to decode the source (all frames when it stays animated).
+     * Used by EncoderPool to cap how much decoding is in flight.
+     */
+    static estimateDecodeBytes(metadata: sharp.Metadata, options: ImageOptions): number {
+        const pixels = (metadata.width ?? 0) * (metadata.height ?? 0);
+        const format = this.resolveFormat(metadata, options).format;
+        const animated = options.animation !== 'first-frame' && this.ANIMATED_FORMATS.includes(format);
+        const frames = animated ? metadata.pages ?? 1 : 1;
+        return pixels * frames * this.BYTES_PER_PIXEL;
+    }
+
+    /**
+     * Build the sharp pipeline for one output, optionally resized to a variant width
+     */
+    private static createPipeline(inputBuffer: Buffer, options: EncodeOptions, width?: number): sharp.Sharp {
+        const pipeline = this.applyColorSpace(
+            this.applyMetadataPolicy(this.createBasePipeline(inputBuffer, options, width), options),
+            options
+        );
+        return pipeline.toFormat(options.format, {
+            quality: options.quality,
+            ...options.encoderOptions?.[options.format]
+        });
+    }
+
+    /**
+     * Orientation + resize, without encoding. Also used as the reference for SSIM (one still `page`).
+     */
+    private static createBasePipeline(inputBuffer: Buffer, options: SourceOptions, width?: number, page = 0): sharp.Sharp {
+        // Always bake EXIF orientation into the pixels (phone photos would come out rotated otherwise)
+        let pipeline = sharp(inputBuffer, { animated: options.animated === true, page }).rotate();
+        // JPEG has no alpha channel - put transparent pixels on a known color instead of sharp's black
+        if (options.format === 'jpeg' && options.background) {
+            pipeline = pipeline.flatten({ background: options.background });
+        }
+        if (options.grayscale) {
+            pipeline = pipeline.grayscale();
+        }
+        const resize = this.getResizeOptions(options, width);
+        if (resize) {
+            pipeline = pipeline.resize(resize);
+        }
+        // sharp composites after resizing; a still decode (SSIM reference) only needs the first frame's overlay
+        const overlays = options.watermarkOverlays?.get(width ?? 0);
+        if (overlays) {
+            pipeline = pipeline.composite(options.animated ? overlays : overlays.slice(0, 1));
+        }
+        return pipeline;
+    }
+
+    /**
+     * Build watermark overlays for every output width, sized from the resized dimensions
+     * (computed from the source header - nothing is decoded)
+     */
+    private static async prepareWatermark(
+        metadata: sharp.Metadata,
+        options: SourceOptions,
+        widths: (number | undefined)[]
+    ): Promise<Map<number, sharp.OverlayOptions[]> | undefined> {
+        if (!options.watermark) return undefined;
+        // Animated outputs are decoded as one tall image with the frames stacked vertically
+        const pages = options.animated ? metadata.pages ?? 1 : 1;
+
+        const source = await WatermarkService.loadSource(options.watermark);
+        const overlays = new Map<number, sharp.OverlayOptions[]>();
+        for (const width of widths) {
+            const size = this.getOutputSize(metadata, options, width);
+            overlays.set(width ?? 0, await WatermarkService.createOverlays(source, options.watermark, size.width, size.height, pages));
+        }
+        return overlays;
+    }
+
+    /**
+     * sharp drops all metadata by default, which is what 'strip' wants (no GPS leaks to public buckets)
+     */
+    private static applyMetadataPolicy(pipeline: sharp.Sharp, options: ImageOptions): sharp.Sharp {
+        switch (options.metadata ?? 'strip') {
+            case 'keep':
+                return pipeline.keepMetadata();
+            case 'keep-icc-only':
+                return pipeline.keepIccProfile();
+            default:
+                return pipeline;
+        }
+    }
+
+    /**
+     * The source as it may be shipped when the size guard keeps it, with the metadata policy enforced.
+     * JPEG, PNG and WebP lose their EXIF/XMP/IPTC without being re-encoded (MetadataService); other
+     * formats are re-saved by sharp. Whatever comes out is only used if it's smaller than the source -
+     * otherwise the raw bytes are shipped, as they are for 'keep' and for files without metadata.
+     */
+    static async sanitizeSource(inputBuffer: Buffer, options: ImageOptions, quality: number): Promise<Buffer> {
+        if (options.metadata === 'keep') return inputBuffer;
+
+        const metadata = await sharp(inputBuffer).metadata();
+        if (!metadata.exif && !metadata.xmp && !metadata.iptc) return inputBuffer;
+
+        const sanitized = MetadataService.strip(inputBuffer, metadata.format, metadata.orientation)
+            ?? await this.resaveSource(inputBuffer, metadata, options, quality);
+        return sanitized && sanitized.length < inputBuffer.length ? sanitized : inputBuffer;
+    }
+
+    /**
+     * Re-save a source in its own format with orientation applied and the metadata policy enforced.
+     * Undefined if sharp can't write the format.
+     */
+    private static async resaveSource(
+        inputBuffer: Buffer,
+        metadata: sharp.Metadata,
+        options: ImageOptions,
+        quality: number
+    ): Promise<Buffer | undefined> {
+        const format = metadata.format;
+        if (!format || !sharp.format[format]?.output.buffer) return undefined;
+
+        return this.applyMetadataPolicy(sharp(inputBuffer, { animated: (metadata.pages ?? 1) > 1 }).rotate(), options)
+            .toFormat(format, { quality })
+            .toBuffer();
+    }
+
+    /**
+     * sharp converts to sRGB and drops the profile by default. Kept profiles ('keep'/'keep-icc-only' metadata)
+     * are swapped for an sRGB one so wide-gamut sources are normalized either way.
+     */
+    private static applyColorSpace(pipeline: sharp.Sharp, options: ImageOptions): sharp.Sharp {
+        switch (options.colorspace ?? 'srgb') {
+            case 'keep':
+                return pipeline.keepIccProfile();
+            case 'p3':
+                return pipeline.withIccProfile('p3');
+            default:
+                return options.metadata === 'keep' || options.metadata === 'keep-icc-only'
+                    ? pipeline.withIccProfile('srgb')
+                    : pipeline;
+        }
+    }
+
+    /**
+     * Transparent sources need a background to become JPEG. Opaque RGBA files (common for screenshots) are fine.
+     */
+    private static async checkTransparency(inputBuffer: Buffer, metadata: sharp.Metadata, options: ImageOptions, label: string) {
+        if (options.format !== 'jpeg' || options.background || !metadata.hasAlpha) return;
+        const { isOpaque } = await sharp(inputBuffer).stats();
+        if (!isOpaque) {
+            throw new Error(`${label} has transparency, which JPEG can't store. Set "background" (e.g. "#ffffff") to flatten it.`);
+        }
+    }
+
+    /**
+     * Resize for the full-size output (maxWidth/maxHeight box) or a variant width.
+     * withoutEnlargement keeps images that already fit untouched.
+     */
+    private static getResizeOptions(options: ImageOptions, width?: number): sharp.ResizeOptions | undefined {
+        const { maxWidth, maxHeight } = options;
+        const fit = options.fit ?? 'inside';
+        const position = options.position ?? 'centre';
+
+        if (width) {
+            // Variants of a cover/contain box keep the box's aspect ratio
+            const height = fit !== 'inside' && maxWidth && maxHeight
+                ? Math.round(width * maxHeight / maxWidth)
+                : undefined;
+            return { width, height, fit, position, withoutEnlargement: true };
+        }
+
+        if (!maxWidth && !maxHeight) return undefined;
+        return { width: maxWidth, height: maxHeight, fit, position, withoutEnlargement: true };
+    }
+
+    /**
+     * Source size once EXIF orientation is applied (one frame for animations).
+     * Orientations 5-8 swap width and height once auto-rotated.
+     */
+    private static getSourceSize(metadata: sharp.Metadata): { width: number; height: number } {
+        const width = metadata.width ?? 0;
+        const height = metadata.pageHeight ?? metadata.height ?? 0;
+        return (metadata.orientation ?? 1) >= 5 ? { width: height, height: width } : { width, height };
+    }
+
+    /**
+     * Size of one output frame, matching what sharp produces for getResizeOptions
+     * (cover crops to the box, contain pads to it, withoutEnlargement never upscales)
+     */
+    private static getOutputSize(metadata: sharp.Metadata, options: ImageOptions, width?: number): { width: number; height: number } {
+        const source = this.getSourceSize(metadata);
+        const resize = this.getResizeOptions(options, width);
+        if (!resize) return source;
+
+        const { width: boxWidth, height: boxHeight, fit } = resize;
+        if (boxWidth && boxHeight && fit === 'cover') {
+            return { width: Math.min(boxWidth, source.width), height: Math.min(boxHeight, source.height) };
+        }
+        if (boxWidth && boxHeight && fit === 'contain') {
+            return { width: boxWidth, height: boxHeight };
+        }
+        const scale = Math.min(1, boxWidth ? boxWidth / source.width : 1, boxHeight ? boxHeight / source.height : 1);
+        return {
+            width: Math.max(1, Math.round(source.width * scale)),
+            height: Math.max(1, Math.round(source.height * scale))
+        };
+    }
+
+    /**
+     * Width of the full-size output once maxWidth/maxHeight are applied
+     */
+    private static getConstrainedWidth(sourceWidth: number, sourceHeight: number, options: ImageOptions): number {
+        const { maxWidth, maxHeight } = options;
+        if ((options.fit ?? 'inside') !== 'inside' && maxWidth) {
+            return Math.min(sourceWidth, maxWidth);
+        }
+        const scale = Math.min(1, maxWidth ? maxWidth / sourceWidth : 1, maxHeight ? maxHeight / sourceHeight : 1);
+        return Math.round(sourceWidth * scale);
+    }
+
+    /**
+     * Resolve which variant widths to generate for an image.
+     * Widths larger than the (constrained) full-size output are skipped so we never upscale.
+     */
+    private static getVariantWidths(metadata: sharp.Metadata, options: ImageOptions): number[] {
+        const { widths } = options;
+        if (!widths || widths.length === 0) return [];
+
+        const unique = [...new Set(widths)].sort((a, b) => a - b);
+        if (!metadata.width || !metadata.height) return unique;
+
+        const source = this.getSourceSize(metadata);
+        const fullWidth = this.getConstrainedWidth(source.width, source.height, options);
+        const fitting = unique.filter(w => w <= fullWidth);
+
+        if (fitting.length < unique.length) {
+            console.log(`Upfly: Skipping variant widths larger than the output (${fullWidth}px)`);
+        }
+        return fitting;
+    }
+
+    /**
+     * Decide whether a multi-frame source (GIF/WebP) is converted as an animation.
+     * Falls back to the first frame for 'first-frame', still-only formats and the maxFrames guard.
+     */
+    private static shouldKeepAnimation(metadata: sharp.Metadata, options: ImageOptions, label: string, warnings: string[]): boolean {
+        const frames = metadata.pages ?? 1;
+        if (frames <= 1 || options.animation === 'first-frame') return false;
+
+        const maxFrames = options.maxFrames ?? this.DEFAULT_MAX_FRAMES;
+        if (frames > maxFrames) {
+            warnings.push(`${label} has ${frames} frames (limit ${maxFrames}), converted from its first frame only.`);
+            return false;
+        }
+
+        if (!this.ANIMATED_FORMATS.includes(options.format)) {
+            console.log(`Upfly: ${options.format} can't hold animation, using the first frame of ${label}`);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * sharp can't write animated AVIF: an animation that would be kept is written as animated WebP
+     * instead, unless `animatedAvif` is 'first-frame'
+     */
+    private static resolveFormat(metadata: sharp.Metadata, options: ImageOptions): ImageOptions {
+        const frames = metadata.pages ?? 1;
+        if (options.format !== 'avif' || frames <= 1 || options.animation === 'first-frame') return options;
+        if ((options.animatedAvif ?? 'webp') === 'first-frame') return options;
+        if (frames > (options.maxFrames ?? this.DEFAULT_MAX_FRAMES)) return options;
+        return { ...options, format: 'webp' };
+    }
+
+
+    /**
+     * Returns a function scoring an encoded output (SSIM) against the unencoded source pixels
+     */
+    private static async createSsimScorer(
+        inputBuffer: Buffer,
+        options: SourceOptions,
+        width?: number
+    ): Promise<(encoded: Buffer) => Promise<number>> {
+        // Animations are scored on a few frames spread across them; the worst frame counts
+        const pages = options.animated ? (await sharp(inputBuffer).metadata()).pages ?? 1 : 1;
+        const frames = this.getSampleFrames(pages);
+
+        const references: Buffer[] = [];
+        let outputWidth = 0;
+        let outputHeight = 0;
+        for (const page of frames) {
+            const { data, info } = await this.createBasePipeline(inputBuffer, { ...options, animated: false }, width, page)
+                .raw()
+                .toBuffer({ resolveWithObject: true });
+            // Scored at the output resolution - downscaling first would hide the compression artifacts
+            outputWidth = info.width;
+            outputHeight = info.height;
+            references.push(await SimilarityService.toLuma(
+                sharp(data, { raw: { width: outputWidth, height: outputHeight, channels: info.channels } }),
+                outputWidth,
+                outputHeight
+            ));
+        }
+
+        return async (encoded: Buffer) => {
+            let worst = 1;
+            for (const [i, page] of frames.entries()) {
+                const candidate = await SimilarityService.toLuma(sharp(encoded, { page }), outputWidth, outputHeight);
+                worst = Math.min(worst, SimilarityService.ssim(references[i], candidate, outputWidth, outputHeight));
+            }
+            return worst;
+        };
+    }
+
+    /**
+     * Up to SSIM_SAMPLE_FRAMES page indexes, evenly spaced and always including the first and last
+     */
+    private static getSampleFrames(pages: number): number[] {
+        const count = Math.min(pages, this.SSIM_SAMPLE_FRAMES);
+        if (count <= 1) return [0];
+        return [...new Set(Array.from({ length: count }, (_, i) => Math.round(i * (pages - 1) / (count - 1))))];
+    }
+
+    /**
+     * Bisect for the lowest quality whose output still scores at least the SSIM threshold.
+     * Falls back to MAX_AUTO_QUALITY if nothing reaches it.
+     */
+    private static async findAutoQuality(
+        inputBuffer: Buffer,
+        options: SourceOptions,
+        width?: number
+    ): Promise<{ quality: number; buffer: Buffer; ssim: number }> {
+        const threshold = options.ssimThreshold ?? this.DEFAULT_SSIM_THRESHOLD;
+        const score = await this.createSsimScorer(inputBuffer, options, width);
+
+        let best: { quality: number; buffer: Buffer; ssim: number } | undefined;
+        let last = best;
+        let low = this.MIN_SEARCH_QUALITY;
+        let high = this.MAX_AUTO_QUALITY;
+
+        while (low <= high) {
+            const quality = Math.floor((low + high) / 2);
+            const buffer = await this.createPipeline(inputBuffer, { ...options, quality }, width).toBuffer();
+            last = { quality, buffer, ssim: await score(buffer) };
+            if (last.ssim >= threshold) {
+                best = last;
+                high = quality - 1;
+            } else {
+                low = quality + 1;
+            }
+        }
+
+        return (best ?? last)!;
+    }
+
+    /**
+     * Bisect quality (between MIN_SEARCH_QUALITY and the configured quality) for the
+     * highest value whose output fits the byte budget. Returns the lowest tried if none fit.
+     */
+    private static async fitToTargetSize(
+        inputBuffer: Buffer,
+        options: EncodeOptions,
+        budget: number,
+        width?: number
+    ): Promise<{ quality: number; buffer: Buffer; fits: boolean }> {
+        const encode = (quality: number) => this.createPipeline(inputBuffer, { ...options, quality }, width).toBuffer();
+
+        // Configured quality is the ceiling - keep it if it already fits
+        let last = { quality: options.quality, buffer: await encode(options.quality) };
+        if (last.buffer.length <= budget) return { ...last, fits: true };
+
+        let best: { quality: number; buffer: Buffer } | undefined;
+        let low = this.MIN_SEARCH_QUALITY;
+        let high = options.quality - 1;
+
+        while (low <= high) {
+            const quality = Math.floor((low + high) / 2);
+            last = { quality, buffer: await encode(quality) };
+            if (last.buffer.length <= budget) {
+                best = last;
+                low = quality + 1;
+            } else {
+                high = quality - 1;
+            }
+        }
+
+        return best ? { ...best, fits: true } : { ...last, fits: false };
+    }
+
+    /**
+     * Shrink an output's pixel width until it fits `fitSize` bytes, keeping its quality.
+     * Each step scales by the square root of the overshoot (bytes grow roughly with area).
+     */
+    private static async downscaleToFit(
+        inputBuffer: Buffer,
+        options: EncodeOptions,
+        output: BufferOutput,
+        fitSize: number,
+        metadata: sharp.Metadata
+    ): Promise<BufferOutput> {
+        let buffer = output.buffer;
+        let width = (await sharp(buffer).metadata()).width ?? 0;
+
+        for (let step = 0; step < this.MAX_DOWNSCALE_STEPS && buffer.length > fitSize && width > this.MIN_DOWNSCALE_WIDTH; step++) {
+            width = Math.max(this.MIN_DOWNSCALE_WIDTH, Math.floor(width * Math.sqrt(fitSize / buffer.length) * 0.95));
+            const stepOptions = options.watermark
+                ? { ...options, watermarkOverlays: await this.prepareWatermark(metadata, options, [width]) }
+                : options;
+            buffer = await this.createPipeline(inputBuffer, stepOptions, width).toBuffer();
+        }
+
+        // The variant keeps its name (hero-640w.webp) even though it is now narrower
+        return { buffer, size: buffer.length, width: output.width, downscaledTo: width };
+    }
+
+    /**
+     * Encode the full-size output and/or one output per responsive width.
+     * Shared by the disk (convertFile) and cloud (convertToBuffer) paths.
+     */
+    static async encode(inputBuffer: Buffer, imageOptions: ImageOptions, label: string): Promise<EncodeResult> {
+        const warnings: string[] = [];
+        const metadata = await sharp(inputBuffer).metadata();
+        await this.checkTransparency(inputBuffer, metadata, imageOptions, label);
+        const resolved = this.resolveFormat(metadata, imageOptions);
+        if (resolved.format !== imageOptions.format) {
+            console.log(`Upfly: ${label} is animated, writing animated WebP instead of AVIF (animatedAvif)`);
+            imageOptions = resolved;
+        }
+        const animated = this.shouldKeepAnimation(metadata, imageOptions, label, warnings);
+        // sharp can't run attention/entropy crops on multi-page images
+        let options: SourceOptions = animated ? { ...imageOptions, animated, position: 'centre' } : imageOptions;
+
+        const variantWidths = this.getVariantWidths(metadata, options);
+        // Never drop the full-size image if no variant could be produced
+        const keepFullSize = options.keepFullSize !== false || variantWidths.length === 0;
+        const widths: (number | undefined)[] = keepFullSize ? [undefined, ...variantWidths] : variantWidths;
+
+        if (options.watermark) {
+            options = { ...options, watermarkOverlays: await this.prepareWatermark(metadata, options, widths) };
+        }
+
+        // Quality searches ('auto', targetSize) run on the largest output and the result is reused for the rest
+        const largestWidth = keepFullSize ? undefined : widths[widths.length - 1];
+        let fitted: { width?: number; buffer: Buffer } | undefined;
+        let quality: number;
+        let ssim: number | undefined;
+
+        if (options.quality === 'auto') {
+            const result = await this.findAutoQuality(inputBuffer, options, largestWidth);
+            quality = result.quality;
+            ssim = result.ssim;
+            fitted = { width: largestWidth, buffer: result.buffer };
+        } else {
+            quality = options.quality;
+        }
+
+        const budget = options.targetSize !== undefined ? parseByteSize(options.targetSize) : undefined;
+        if (budget) {
+            const result = await this.fitToTargetSize(inputBuffer, { ...options, quality }, budget, largestWidth);
+            if (ssim !== undefined && result.quality !== quality) {
+                // The budget overrode the perceptual choice - re-measure what we actually ship
+                const score = await this.createSsimScorer(inputBuffer, options, largestWidth);
+                ssim = await score(result.buffer);
+            }
+            quality = result.quality;
+            fitted = { width: largestWidth, buffer: result.buffer };
+            if (!result.fits) {
+                warnings.push(
+                    `${label} is ${this.formatBytes(result.buffer.length)} even at quality ${quality}, ` +
+                    `over the ${this.formatBytes(budget)} target size.`
+                );
+            }
+        }
+
+        const outputs: BufferOutput[] = [];
+        for (const width of widths) {
+            const buffer = fitted && fitted.width === width
+                ? fitted.buffer
+                : await this.createPipeline(inputBuffer, { ...options, quality }, width).toBuffer();
+            outputs.push({ buffer, size: buffer.length, width });
+        }
+
+        // oversizePolicy 'downscale-to-fit': every output must come in under maxFileSize
+        const fitSize = options.oversizePolicy === 'downscale-to-fit' ? options.maxFileSize : undefined;
+        if (fitSize) {
+            for (const [i, output] of outputs.entries()) {
+                if (output.size <= fitSize) continue;
+                outputs[i] = await this.downscaleToFit(inputBuffer, { ...options, quality }, output, fitSize, metadata);
+                if (outputs[i].size > fitSize) {
+                    warnings.push(
+                        `${label} is still ${this.formatBytes(outputs[i].size)} at ${outputs[i].downscaledTo}px wide, ` +
+                        `over the ${this.formatBytes(fitSize)} maxFileSize.`
+                    );
+                }
+            }
+        }
+
+        const fullSize = outputs.find(o => o.width === undefined);
+        const keptSource = fullSize && !this.isWorthConverting(fullSize.size, inputBuffer.length, options)
+            ? await this.sanitizeSource(inputBuffer, options, quality)
+            : undefined;
+
+        return {
+            format: options.format,
+            outputs,
+            quality,
+            ssim,
+            warnings,
+            sourceSize: inputBuffer.length,
+            sourceHash: ProcessingCache.hash(inputBuffer),
+            keptSource
+        };
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * FileNameService - Output names from a `fileNameTemplate`, for local files and cloud keys
+ *
+ * Tokens: {name} {slug} {width} {format} {hash} / {hash:N} {date}. The extension is always appended:
+ * "{slug}.{hash:8}" -> hero-image.3f2a1b9c.webp
+ */
+
+import * as crypto from 'crypto';
+import sharp from 'sharp';
+
+export interface FileNameContext {
+    name: string;  // Source file name without extension
+    format: string;  // Output format, also used as the extension
+    buffer: Buffer;  // Output bytes, hashed for {hash}
+    width?: number;  // Output width; read from the buffer if the template needs it
+    date?: Date;  // Default: now
+}
+
+export class FileNameService {
+    private static readonly TOKEN_PATTERN = /\{(\w+)(?::(\d+))?\}/g;
+    private static readonly TOKENS = ['name', 'slug', 'width', 'format', 'hash', 'date'];
+    private static readonly DEFAULT_HASH_LENGTH = 8;
+    private static readonly MAX_HASH_LENGTH = 64;  // sha256 in hex
+
+    /**
+     * Check a template. Returns an error message, or undefined if usable.
+     */
+    static validate(template: string): string | undefined {
+        if (template.trim() === '') return 'must not be empty';
+        if (/[\\/]/.test(template)) return 'must be a file name, not a path';
+
+        for (const [, token, length] of template.matchAll(this.TOKEN_PATTERN)) {
+            if (!this.TOKENS.includes(token)) {
+                return `has an unknown token {${token}} (use ${this.TOKENS.map(t => `{${t}}`).join(', ')})`;
+            }
+            if (length !== undefined && (token !== 'hash' || +length < 1 || +length > this.MAX_HASH_LENGTH)) {
+                return `{${token}:${length}} is not valid (only {hash:N} takes a length, 1-${this.MAX_HASH_LENGTH})`;
+            }
+        }
+        return undefined;
+    }
+
+    static usesWidth(template: string): boolean {
+        return /\{width\}/.test(template);
+    }
+
+    /**
+     * Whether names change with the output bytes ({hash} / {hash:N})
+     */
+    static usesHash(template: string): boolean {
+        return /\{hash(?::\d+)?\}/.test(template);
+    }
+
+    /**
+     * File name (with extension) for one output
+     */
+    static async render(template: string, context: FileNameContext): Promise<string> {
+        let width = context.width;
+        if (width === undefined && this.usesWidth(template)) {
+            width = (await sharp(context.buffer).metadata()).width;
+        }
+        const date = context.date ?? new Date();
+        const pad = (n: number) => String(n).padStart(2, '0');
+
+        const name = template.replace(this.TOKEN_PATTERN, (match, token: string, length?: string) => {
+            switch (token) {
+                case 'name': return context.name;
+                case 'slug': return this.slugify(context.name);
+                case 'width': return String(width ?? '');
+                case 'format': return context.format;
+                case 'date': return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+                case 'hash': return crypto.createHash('sha256').update(context.buffer).digest('hex')
+                    .slice(0, length ? +length : this.DEFAULT_HASH_LENGTH);
+                default: return match;
+            }
+        });
+        return `${name}.${context.format}`;
+    }
+
+    /**
+     * "Screenshot 2026-10-19 at 10.42.13" -> "screenshot-2026-10-19-at-10-42-13"
+     */
+    static slugify(name: string): string {
+        const slug = name
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')  // Accents
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '');
+        return slug || 'image';
+    }
+}
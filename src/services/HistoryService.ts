@@ -0,0 +1,283 @@
+/**
+ * HistoryService - Conversion journal in .upfly/history for undo/restore
+ *
+ * Every local conversion records its source, the files it wrote and what happened
+ * to the original (kept, deleted, replaced or moved). Files a conversion deletes, moves or
+ * overwrites are stashed in .upfly/history/stash for `historyRetentionDays` so they can come back.
+ * Each workspace folder keeps its own journal (one JSON entry per line, appended per conversion);
+ * the view and undo see all of them.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigService } from './ConfigService';
+import { ProcessingCache } from './ProcessingCache';
+import { PlaceholderService } from './PlaceholderService';
+import { WorkspaceService } from './WorkspaceService';
+
+export type OriginalAction = 'kept' | 'deleted' | 'replaced' | 'moved';
+
+export interface HistoryEntry {
+    id: string;
+    sourcePath: string;
+    outputPaths: string[];
+    original: {
+        action: OriginalAction;
+        movedTo?: string;  // Backup/originalDirectory location for 'moved'
+    };
+    stashPath?: string;  // Copy of the original bytes (until retention expires)
+    overwritten?: OverwrittenFile[];  // Outputs written over files that existed before the conversion
+    quality?: number;  // Encoder quality used (chosen by 'auto' or lowered by targetSize)
+    ssim?: number;  // Measured similarity to the source, when quality was 'auto'
+    convertedAt: string;
+    restoredAt?: string;
+}
+
+export interface OverwrittenFile {
+    path: string;
+    stashPath?: string;  // The earlier file (until retention expires). Without one, restore leaves the output in place
+}
+
+export class HistoryService {
+    private static readonly DEFAULT_RETENTION_DAYS = 7;
+    private static readonly MAX_ENTRIES = 1000;
+
+    private static _onDidChange = new vscode.EventEmitter<void>();
+    public static readonly onDidChange = this._onDidChange.event;
+
+    private static getHistoryDir(workspaceRoot: string): string {
+        return path.join(workspaceRoot, '.upfly', 'history');
+    }
+
+    private static getJournalPath(workspaceRoot: string): string {
+        return path.join(this.getHistoryDir(workspaceRoot), 'journal.jsonl');
+    }
+
+    private static getRetentionDays(workspaceRoot: string): number {
+        const days = ConfigService.getInstance().get<number | undefined>('historyRetentionDays', workspaceRoot);
+        return typeof days === 'number' && days >= 0 ? days : this.DEFAULT_RETENTION_DAYS;
+    }
+
+    static createId(): string {
+        return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    }
+
+    /**
+     * Save the original of conversion `id`, or a file it is about to overwrite, into the entry's stash.
+     * `move` renames it there (the caller would remove it anyway), otherwise it is copied.
+     * Returns the stash path, or undefined with retention 0 (journal only) or if stashing failed.
+     */
+    static async stash(
+        id: string,
+        sourcePath: string,
+        filePath: string,
+        kind: 'original' | 'overwritten',
+        move: boolean
+    ): Promise<string | undefined> {
+        try {
+            const workspaceRoot = WorkspaceService.getRoot(sourcePath);
+            if (!workspaceRoot || this.getRetentionDays(workspaceRoot) === 0) return undefined;
+
+            // Overwritten files go to a subfolder so their names can't clash with the original's
+            const stashDir = path.join(this.getHistoryDir(workspaceRoot), 'stash', id, kind === 'original' ? '' : 'overwritten');
+            fs.mkdirSync(stashDir, { recursive: true });
+            // Non-image extension so no watch glob ever picks the stash up
+            const stashPath = path.join(stashDir, `${path.basename(filePath)}.orig`);
+            if (move) {
+                await this.moveFile(filePath, stashPath);
+            } else {
+                await fs.promises.copyFile(filePath, stashPath);
+            }
+            return stashPath;
+        } catch (e) {
+            console.error(`Upfly: Failed to stash ${filePath}`, e);
+            return undefined;
+        }
+    }
+
+    /**
+     * Rename, or copy + delete when the stash is on another volume
+     */
+    private static async moveFile(from: string, to: string): Promise<void> {
+        try {
+            await fs.promises.rename(from, to);
+        } catch (e: any) {
+            if (e.code !== 'EXDEV') throw e;
+            await fs.promises.copyFile(from, to);
+            await fs.promises.unlink(from);
+        }
+    }
+
+    /**
+     * Record a conversion (appended to the journal; pruning runs on activation).
+     * Never throws - the journal must not fail a conversion.
+     */
+    static record(entry: Omit<HistoryEntry, 'convertedAt' | 'restoredAt'>): void {
+        try {
+            const workspaceRoot = WorkspaceService.getRoot(entry.sourcePath);
+            if (!workspaceRoot) throw new Error('No workspace folder');
+            const line = JSON.stringify({ ...entry, convertedAt: new Date().toISOString() });
+            fs.mkdirSync(this.getHistoryDir(workspaceRoot), { recursive: true });
+            fs.appendFileSync(this.getJournalPath(workspaceRoot), line + '\n');
+            this._onDidChange.fire();
+        } catch (e) {
+            console.error('Upfly: Failed to record conversion history', e);
+        }
+    }
+
+    /**
+     * All journal entries of every workspace folder, oldest first
+     */
+    static read(): HistoryEntry[] {
+        return WorkspaceService.getFolders()
+            .flatMap(folder => this.readJournal(folder.uri.fsPath))
+            .sort((a, b) => a.convertedAt.localeCompare(b.convertedAt));
+    }
+
+    private static readJournal(workspaceRoot: string): HistoryEntry[] {
+        try {
+            const journalPath = this.getJournalPath(workspaceRoot);
+            if (fs.existsSync(journalPath)) {
+                return fs.readFileSync(journalPath, 'utf8')
+                    .split('\n')
+                    .filter(line => line.trim())
+                    .map(line => JSON.parse(line) as HistoryEntry);
+            }
+        } catch (e) {
+            console.error('Upfly: Failed to read history journal', e);
+        }
+        return [];
+    }
+
+    private static write(workspaceRoot: string, entries: HistoryEntry[]): void {
+        fs.mkdirSync(this.getHistoryDir(workspaceRoot), { recursive: true });
+        fs.writeFileSync(this.getJournalPath(workspaceRoot), entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Undo the most recent conversion that hasn't been restored yet
+     */
+    static async undoLast(): Promise<void> {
+        const last = [...this.read()].reverse().find(e => !e.restoredAt);
+        if (!last) {
+            vscode.window.showInformationMessage('Upfly: Nothing to undo.');
+            return;
+        }
+        await this.restore(last.id);
+    }
+
+    /**
+     * Restore a journal entry: remove the outputs and bring the original back
+     */
+    static async restore(id: string): Promise<void> {
+        const workspaceRoot = WorkspaceService.getRoot(this.read().find(e => e.id === id)?.sourcePath);
+        const entries = workspaceRoot ? this.readJournal(workspaceRoot) : [];
+        const entry = entries.find(e => e.id === id);
+        if (!entry) {
+            vscode.window.showErrorMessage('Upfly: History entry not found.');
+            return;
+        }
+        if (entry.restoredAt) {
+            vscode.window.showInformationMessage(`Upfly: ${path.basename(entry.sourcePath)} was already restored.`);
+            return;
+        }
+
+        const fileName = path.basename(entry.sourcePath);
+        const movedTo = entry.original.movedTo;
+        const canMoveBack = entry.original.action === 'moved' && movedTo !== undefined && fs.existsSync(movedTo);
+        const hasStash = entry.stashPath !== undefined && fs.existsSync(entry.stashPath);
+        const needsOriginal = entry.original.action !== 'kept';
+
+        if (needsOriginal && !canMoveBack && !hasStash) {
+            vscode.window.showErrorMessage(
+                `Upfly: Cannot restore ${fileName} - the original is no longer available (stash expired or moved).`
+            );
+            return;
+        }
+
+        try {
+            // Outputs written over an earlier file get that file back (or stay, once its stash expired)
+            const overwritten = new Map((entry.overwritten ?? []).map(file => [file.path, file.stashPath]));
+            for (const outputPath of entry.outputPaths) {
+                if (outputPath === entry.sourcePath) {
+                    continue;  // Replaced in place - the original comes back below
+                }
+                if (!overwritten.has(outputPath)) {
+                    if (fs.existsSync(outputPath)) fs.unlinkSync(outputPath);
+                    continue;
+                }
+                const stashPath = overwritten.get(outputPath);
+                if (stashPath && fs.existsSync(stashPath)) {
+                    ProcessingCache.add(outputPath);
+                    fs.copyFileSync(stashPath, outputPath);
+                    ProcessingCache.rememberContent(outputPath, ProcessingCache.hash(fs.readFileSync(outputPath)));
+                }
+            }
+            PlaceholderService.remove(entry.outputPaths);
+
+            if (needsOriginal) {
+                fs.mkdirSync(path.dirname(entry.sourcePath), { recursive: true });
+                // The watcher must not convert the restored file again
+                ProcessingCache.add(entry.sourcePath);
+                if (fs.existsSync(entry.sourcePath)) {
+                    fs.unlinkSync(entry.sourcePath);  // The in-place output
+                }
+                if (canMoveBack) {
+                    fs.renameSync(movedTo!, entry.sourcePath);
+                } else {
+                    fs.copyFileSync(entry.stashPath!, entry.sourcePath);
+                }
+                ProcessingCache.rememberContent(entry.sourcePath, ProcessingCache.hash(fs.readFileSync(entry.sourcePath)));
+            }
+
+            entry.restoredAt = new Date().toISOString();
+            this.write(workspaceRoot!, entries);
+            vscode.window.showInformationMessage(`Upfly: Restored ${fileName}`);
+        } catch (error: any) {
+            console.error('Upfly: Restore failed', error);
+            vscode.window.showErrorMessage(`Upfly: Restore of ${fileName} failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Drop stashes past the retention period and cap the journal size (every folder by default)
+     */
+    static prune(workspaceRoot?: string): void {
+        if (!workspaceRoot) {
+            WorkspaceService.getFolders().forEach(folder => this.prune(folder.uri.fsPath));
+            return;
+        }
+        try {
+            const cutoff = Date.now() - this.getRetentionDays(workspaceRoot) * 24 * 60 * 60 * 1000;
+            const entries = this.readJournal(workspaceRoot);
+            let changed = false;
+
+            for (const entry of entries) {
+                const hasStash = entry.stashPath !== undefined || entry.overwritten?.some(file => file.stashPath);
+                if (hasStash && new Date(entry.convertedAt).getTime() < cutoff) {
+                    this.removeStash(workspaceRoot, entry);
+                    entry.stashPath = undefined;
+                    entry.overwritten?.forEach(file => file.stashPath = undefined);
+                    changed = true;
+                }
+            }
+
+            const kept = entries.slice(-this.MAX_ENTRIES);
+            for (const dropped of entries.slice(0, entries.length - kept.length)) {
+                this.removeStash(workspaceRoot, dropped);
+            }
+
+            if (changed || kept.length !== entries.length) {
+                this.write(workspaceRoot, kept);
+            }
+        } catch (e) {
+            console.error('Upfly: Failed to prune conversion history', e);
+        }
+    }
+
+    private static removeStash(workspaceRoot: string, entry: HistoryEntry): void {
+        fs.rmSync(path.join(this.getHistoryDir(workspaceRoot), 'stash', entry.id), { recursive: true, force: true });
+    }
+}
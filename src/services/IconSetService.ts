@@ -0,0 +1,166 @@
+/**
+ * IconSetService - Favicon / app-icon set from one square PNG or SVG
+ *
+ * Writes favicon.ico (16/32/48), apple-touch-icon.png, icon-192/512.png, their maskable
+ * variants and a site.webmanifest listing the Android icons.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { ProcessingCache } from './ProcessingCache';
+
+interface IconFile {
+    name: string;
+    size: number;
+    maskable?: boolean;
+    opaque?: boolean;  // iOS fills transparency with black, so the touch icon is flattened
+}
+
+export interface IconSetResult {
+    files: string[];
+    manifestPath: string;
+    htmlSnippet: string;
+    upscaled: boolean;  // Raster source smaller than the largest icon
+}
+
+export class IconSetService {
+    private static readonly ICO_SIZES = [16, 32, 48];
+    private static readonly ICONS: IconFile[] = [
+        { name: 'apple-touch-icon.png', size: 180, opaque: true },
+        { name: 'icon-192.png', size: 192 },
+        { name: 'icon-512.png', size: 512 },
+        { name: 'icon-192-maskable.png', size: 192, maskable: true },
+        { name: 'icon-512-maskable.png', size: 512, maskable: true }
+    ];
+    // Maskable icons keep the artwork inside the 80% safe zone (Android crops to a circle/squircle)
+    private static readonly MASKABLE_SAFE_ZONE = 0.8;
+    private static readonly BACKGROUND = '#ffffff';
+    private static readonly LARGEST_ICON = 512;
+
+    /**
+     * Names of every file generate() writes, for overwrite checks
+     */
+    static getOutputNames(): string[] {
+        return ['favicon.ico', ...this.ICONS.map(icon => icon.name), 'site.webmanifest'];
+    }
+
+    /**
+     * Check the source is a square image. Returns an error message, or undefined if usable.
+     */
+    static async validateSource(sourcePath: string): Promise<string | undefined> {
+        try {
+            const metadata = await sharp(fs.readFileSync(sourcePath)).metadata();
+            if (!metadata.width || !metadata.height) return 'could not read the image size';
+            if (metadata.width !== metadata.height) {
+                return `the source must be square (it is ${metadata.width}×${metadata.height})`;
+            }
+        } catch (error: any) {
+            return error.message;
+        }
+        return undefined;
+    }
+
+    static async generate(sourcePath: string, outputDir: string): Promise<IconSetResult> {
+        const input = fs.readFileSync(sourcePath);
+        const metadata = await sharp(input).metadata();
+        const isVector = metadata.format === 'svg';
+        // Rasterize SVGs at a density that renders the largest icon natively
+        const density = isVector && metadata.width
+            ? Math.min(2400, Math.ceil(72 * this.LARGEST_ICON / metadata.width))
+            : undefined;
+        const source = () => sharp(input, density ? { density } : {}).rotate();
+
+        fs.mkdirSync(outputDir, { recursive: true });
+        const files: string[] = [];
+        const write = (name: string, buffer: Buffer) => {
+            const filePath = path.join(outputDir, name);
+            ProcessingCache.add(filePath);
+            fs.writeFileSync(filePath, buffer);
+            ProcessingCache.rememberContent(filePath, ProcessingCache.hash(buffer));
+            files.push(filePath);
+        };
+
+        const icoImages = await Promise.all(
+            this.ICO_SIZES.map(size => source().resize(size, size).png().toBuffer())
+        );
+        write('favicon.ico', this.createIco(icoImages, this.ICO_SIZES));
+
+        for (const icon of this.ICONS) {
+            write(icon.name, await this.renderIcon(source, icon));
+        }
+
+        const manifestPath = path.join(outputDir, 'site.webmanifest');
+        const manifest = {
+            icons: this.ICONS
+                .filter(icon => icon.name.startsWith('icon-'))
+                .map(icon => ({
+                    src: `/${icon.name}`,
+                    sizes: `${icon.size}x${icon.size}`,
+                    type: 'image/png',
+                    ...(icon.maskable ? { purpose: 'maskable' } : {})
+                }))
+        };
+        fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+        files.push(manifestPath);
+
+        const htmlSnippet = [
+            '<link rel="icon" href="/favicon.ico" sizes="any">',
+            '<link rel="apple-touch-icon" href="/apple-touch-icon.png">',
+            '<link rel="manifest" href="/site.webmanifest">'
+        ].join('\n');
+
+        return {
+            files,
+            manifestPath,
+            htmlSnippet,
+            upscaled: !isVector && (metadata.width ?? 0) < this.LARGEST_ICON
+        };
+    }
+
+    private static async renderIcon(source: () => sharp.Sharp, icon: IconFile): Promise<Buffer> {
+        if (!icon.maskable) {
+            const resized = source().resize(icon.size, icon.size);
+            return (icon.opaque ? resized.flatten({ background: this.BACKGROUND }) : resized).png().toBuffer();
+        }
+
+        const artworkSize = Math.round(icon.size * this.MASKABLE_SAFE_ZONE);
+        const artwork = await source().resize(artworkSize, artworkSize).png().toBuffer();
+        return sharp({
+            create: { width: icon.size, height: icon.size, channels: 4, background: this.BACKGROUND }
+        })
+            .composite([{ input: artwork, gravity: 'centre' }])
+            .png()
+            .toBuffer();
+    }
+
+    /**
+     * ICO container with PNG-compressed entries (supported by every current browser)
+     */
+    private static createIco(images: Buffer[], sizes: number[]): Buffer {
+        const HEADER_SIZE = 6;
+        const ENTRY_SIZE = 16;
+
+        const header = Buffer.alloc(HEADER_SIZE);
+        header.writeUInt16LE(0, 0);  // Reserved
+        header.writeUInt16LE(1, 2);  // Type: icon
+        header.writeUInt16LE(images.length, 4);
+
+        let offset = HEADER_SIZE + ENTRY_SIZE * images.length;
+        const entries = images.map((image, i) => {
+            const entry = Buffer.alloc(ENTRY_SIZE);
+            entry.writeUInt8(sizes[i] >= 256 ? 0 : sizes[i], 0);  // Width (0 = 256)
+            entry.writeUInt8(sizes[i] >= 256 ? 0 : sizes[i], 1);  // Height
+            entry.writeUInt8(0, 2);  // Palette colors
+            entry.writeUInt8(0, 3);  // Reserved
+            entry.writeUInt16LE(1, 4);  // Color planes
+            entry.writeUInt16LE(32, 6);  // Bits per pixel
+            entry.writeUInt32LE(image.length, 8);
+            entry.writeUInt32LE(offset, 12);
+            offset += image.length;
+            return entry;
+        });
+
+        return Buffer.concat([header, ...entries, ...images]);
+    }
+}
@@ -0,0 +1,96 @@
+/**
+ * IgnoreService - gitignore-style matching for `exclude` globs and the workspace `.upflyignore`
+ *
+ * Paths are relative to the workspace root with forward slashes. Supported syntax: `*`, `?`, `[abc]`,
+ * `**`, `!` negation, `#` comments, a trailing `/` for folders only, and a leading or middle `/` to anchor
+ * the pattern to the root (otherwise it matches at any depth). The last matching pattern wins.
+ */
+
+export interface IgnoreRule {
+    regex: RegExp;
+    negated: boolean;
+    folderOnly: boolean;
+}
+
+export class IgnoreService {
+    /**
+     * Patterns from a .upflyignore file (blank lines and comments dropped)
+     */
+    static parse(content: string): string[] {
+        return content
+            .split(/\r?\n/)
+            .map(line => line.replace(/(?<!\\)\s+$/, ''))
+            .filter(line => line !== '' && !line.startsWith('#'));
+    }
+
+    static compile(patterns: string[]): IgnoreRule[] {
+        const rules: IgnoreRule[] = [];
+        for (let pattern of patterns) {
+            const negated = pattern.startsWith('!');
+            if (negated) pattern = pattern.slice(1);
+            // "\!important.png" / "\#hash.png" are literal names
+            if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) pattern = pattern.slice(1);
+
+            const folderOnly = pattern.endsWith('/');
+            pattern = pattern.replace(/\/+$/, '');
+            const anchored = pattern.includes('/');
+            pattern = pattern.replace(/^\/+/, '');
+            if (pattern === '') continue;
+
+            const glob = anchored || pattern.startsWith('**') ? pattern : `**/${pattern}`;
+            rules.push({ regex: this.toRegExp(glob), negated, folderOnly });
+        }
+        return rules;
+    }
+
+    /**
+     * Whether a file is ignored. A pattern matching one of its folders ignores everything inside.
+     */
+    static matches(rules: IgnoreRule[], relativePath: string): boolean {
+        const segments = relativePath.replace(/\\/g, '/').split('/').filter(Boolean);
+        if (rules.length === 0 || segments.length === 0) return false;
+
+        let ignored = false;
+        for (const rule of rules) {
+            for (let depth = 1; depth <= segments.length; depth++) {
+                const isFile = depth === segments.length;
+                if (isFile && rule.folderOnly) continue;
+                if (rule.regex.test(segments.slice(0, depth).join('/'))) {
+                    ignored = !rule.negated;
+                    break;
+                }
+            }
+        }
+        return ignored;
+    }
+
+    private static toRegExp(glob: string): RegExp {
+        let source = '';
+        for (let i = 0; i < glob.length; i++) {
+            const char = glob[i];
+            if (char === '*' && glob[i + 1] === '*') {
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';  // "**/" - zero or more folders
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else if (char === '*') {
+                source += '[^/]*';
+            } else if (char === '?') {
+                source += '[^/]';
+            } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+                const end = glob.indexOf(']', i + 2);
+                const set = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+                source += set.startsWith('!') ? `[^${set.slice(1)}]` : `[${set}]`;
+                i = end;
+            } else if (char === '\\' && i + 1 < glob.length) {
+                source += glob[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            } else {
+                source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+            }
+        }
+        return new RegExp(`^${source}$`);
+    }
+}
@@ -0,0 +1,182 @@
+/**
+ * MetadataService - Removes EXIF, XMP and IPTC from JPEG, PNG and WebP files without re-encoding them
+ *
+ * Works on the container: metadata segments/chunks are dropped and the compressed image data is
+ * copied byte for byte. The ICC profile stays - the pixels aren't converted, so dropping it would
+ * shift the colors.
+ */
+
+export class MetadataService {
+    private static readonly PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    // PNG chunks that carry EXIF, XMP (iTXt) or free-form text
+    private static readonly PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'iTXt', 'zTXt'];
+    // JPEG APP1 (EXIF, XMP), APP13 (Photoshop IPTC) and comments
+    private static readonly JPEG_METADATA_MARKERS = [0xe1, 0xed, 0xfe];
+    // VP8X flag bits
+    private static readonly WEBP_EXIF_FLAG = 0x08;
+    private static readonly WEBP_XMP_FLAG = 0x04;
+
+    private static crcTable?: Uint32Array;
+
+    /**
+     * Strip metadata from a JPEG, PNG or WebP file. A non-default EXIF orientation is written back
+     * as a minimal EXIF block so the image still displays upright.
+     * Returns undefined for other formats or files that can't be parsed.
+     */
+    static strip(input: Buffer, format: string | undefined, orientation?: number): Buffer | undefined {
+        const exif = orientation && orientation !== 1 ? this.createOrientationExif(orientation) : undefined;
+        try {
+            switch (format) {
+                case 'jpeg':
+                    return this.stripJpeg(input, exif);
+                case 'png':
+                    return this.stripPng(input, exif);
+                case 'webp':
+                    return this.stripWebp(input, exif);
+                default:
+                    return undefined;
+            }
+        } catch {
+            // Truncated or malformed container
+            return undefined;
+        }
+    }
+
+    /**
+     * Big-endian TIFF header with a single IFD entry: Orientation (0x0112, SHORT)
+     */
+    private static createOrientationExif(orientation: number): Buffer {
+        const tiff = Buffer.alloc(26);
+        tiff.write('MM', 0, 'ascii');
+        tiff.writeUInt16BE(0x2a, 2);
+        tiff.writeUInt32BE(8, 4);  // First IFD right after the header
+        tiff.writeUInt16BE(1, 8);  // One entry
+        tiff.writeUInt16BE(0x0112, 10);
+        tiff.writeUInt16BE(3, 12);
+        tiff.writeUInt32BE(1, 14);
+        tiff.writeUInt16BE(orientation, 18);
+        // Value padding and the next-IFD offset stay 0
+        return tiff;
+    }
+
+    private static stripJpeg(input: Buffer, exif?: Buffer): Buffer | undefined {
+        if (input.readUInt16BE(0) !== 0xffd8) return undefined;
+
+        const parts: Buffer[] = [input.subarray(0, 2)];
+        let pos = 2;
+        let exifWritten = !exif;
+        while (pos < input.length) {
+            if (input[pos] !== 0xff) return undefined;
+            const marker = input[pos + 1];
+            if (!exifWritten && marker !== 0xe0) {
+                // After the JFIF header (if any), before everything else
+                const header = Buffer.from([0xff, 0xe1, 0, 0, 0x45, 0x78, 0x69, 0x66, 0, 0]);  // APP1 "Exif\0\0"
+                header.writeUInt16BE(header.length - 2 + exif!.length, 2);
+                parts.push(header, exif!);
+                exifWritten = true;
+            }
+            // Start of scan: the rest is entropy-coded data (and any trailing markers)
+            if (marker === 0xda) {
+                parts.push(input.subarray(pos));
+                break;
+            }
+            const end = pos + 2 + input.readUInt16BE(pos + 2);
+            if (end > input.length) return undefined;
+
+            if (!this.JPEG_METADATA_MARKERS.includes(marker)) {
+                parts.push(input.subarray(pos, end));
+            }
+            pos = end;
+        }
+        return Buffer.concat(parts);
+    }
+
+    private static stripPng(input: Buffer, exif?: Buffer): Buffer | undefined {
+        if (!input.subarray(0, 8).equals(this.PNG_SIGNATURE)) return undefined;
+
+        const parts: Buffer[] = [input.subarray(0, 8)];
+        let pos = 8;
+        let exifWritten = !exif;
+        while (pos < input.length) {
+            const length = input.readUInt32BE(pos);
+            const type = input.toString('latin1', pos + 4, pos + 8);
+            const end = pos + 12 + length;
+            if (end > input.length) return undefined;
+
+            // eXIf must come before the image data
+            if (!exifWritten && type === 'IDAT') {
+                parts.push(this.createPngChunk('eXIf', exif!));
+                exifWritten = true;
+            }
+            if (!this.PNG_METADATA_CHUNKS.includes(type)) {
+                parts.push(input.subarray(pos, end));
+            }
+            pos = end;
+            if (type === 'IEND') break;
+        }
+        return Buffer.concat(parts);
+    }
+
+    private static stripWebp(input: Buffer, exif?: Buffer): Buffer | undefined {
+        if (input.toString('latin1', 0, 4) !== 'RIFF' || input.toString('latin1', 8, 12) !== 'WEBP') return undefined;
+        // Simple (VP8/VP8L only) files can't carry metadata
+        if (input.toString('latin1', 12, 16) !== 'VP8X') return input;
+
+        const chunks: Buffer[] = [];
+        let pos = 12;
+        while (pos + 8 <= input.length) {
+            const fourcc = input.toString('latin1', pos, pos + 4);
+            const end = pos + 8 + input.readUInt32LE(pos + 4);
+            const padded = end + (end % 2);
+            if (end > input.length) return undefined;
+
+            if (fourcc !== 'EXIF' && fourcc !== 'XMP ') {
+                chunks.push(Buffer.from(input.subarray(pos, Math.min(padded, input.length))));
+            }
+            pos = padded;
+        }
+
+        // Metadata chunks go last
+        if (exif) {
+            const header = Buffer.alloc(8);
+            header.write('EXIF', 0, 'latin1');
+            header.writeUInt32LE(exif.length, 4);
+            chunks.push(header, exif);
+        }
+        // chunks[0] is VP8X; its first payload byte holds the flags
+        const vp8x = chunks[0];
+        vp8x[8] = (vp8x[8] & ~(this.WEBP_EXIF_FLAG | this.WEBP_XMP_FLAG)) | (exif ? this.WEBP_EXIF_FLAG : 0);
+
+        const header = Buffer.from(input.subarray(0, 12));
+        const body = Buffer.concat(chunks);
+        header.writeUInt32LE(body.length + 4, 4);
+        return Buffer.concat([header, body]);
+    }
+
+    private static createPngChunk(type: string, data: Buffer): Buffer {
+        const chunk = Buffer.alloc(12 + data.length);
+        chunk.writeUInt32BE(data.length, 0);
+        chunk.write(type, 4, 'latin1');
+        data.copy(chunk, 8);
+        chunk.writeUInt32BE(this.crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+        return chunk;
+    }
+
+    private static crc32(data: Buffer): number {
+        if (!this.crcTable) {
+            this.crcTable = new Uint32Array(256);
+            for (let n = 0; n < 256; n++) {
+                let c = n;
+                for (let k = 0; k < 8; k++) {
+                    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+                }
+                this.crcTable[n] = c >>> 0;
+            }
+        }
+        let crc = 0xffffffff;
+        for (const byte of data) {
+            crc = this.crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+        }
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+}
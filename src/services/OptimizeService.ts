@@ -0,0 +1,308 @@
+/**
+ * OptimizeService - Bulk backfill for images that existed before Upfly was set up
+ *
+ * Scans the watch targets (or one folder), decides per file what its target's settings would do,
+ * estimates output sizes for a dry-run report, and converts through the shared queue.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigService } from './ConfigService';
+import { ConverterService, ConversionOptions } from './ConverterService';
+import { ConversionLogService } from './ConversionLogService';
+import { DuplicateService } from './DuplicateService';
+import { HistoryService } from './HistoryService';
+import { WorkspaceService } from './WorkspaceService';
+import { globalQueue } from './QueueService';
+
+export type OptimizeAction = 'convert' | 'recompress' | 'skip';
+
+export interface OptimizeItem {
+    filePath: string;
+    size: number;
+    action: OptimizeAction;
+    reason?: string;  // Why the file is skipped
+    options?: ConversionOptions;  // Set unless skipped
+    estimatedSize?: number;  // Dry run: bytes of the full-size output (all sizes when there is none)
+    variantCount?: number;  // Dry run: responsive sizes written next to it
+    keepsOriginal?: boolean;  // Dry run: the size guard keeps the source (it may still be copied, or get sizes)
+}
+
+export interface OptimizeSummary {
+    optimized: number;
+    unchanged: number;  // Left as they were (e.g. the size guard kept the original)
+    cancelled: boolean;
+}
+
+type Progress = vscode.Progress<{ message?: string; increment?: number }>;
+
+// What earlier conversions left on disk, so a re-run doesn't optimize it again
+interface ConvertedFiles {
+    sources: Set<string>;
+    outputs: Set<string>;
+    backups: Set<string>;  // Originals moved aside (inPlaceKeepOriginal backups, originalDirectory)
+}
+
+export class OptimizeService {
+    private static readonly EXTENSIONS_GLOB = '{png,jpg,jpeg,webp,avif,tiff,gif}';
+    // inPlaceKeepOriginal backups: image_original.png, image_original_copy1.png
+    private static readonly BACKUP_NAME_PATTERN = /_original(_copy\d+)?$/;
+    private static readonly CLOUD_TARGET_REASON = 'cloud upload target';
+
+    /**
+     * Every image in scope with the action its settings call for. Undefined if cancelled.
+     * Without a folder the watch targets of all workspace folders are scanned.
+     */
+    static async scan(folderPath: string | undefined, progress: Progress, token: vscode.CancellationToken): Promise<OptimizeItem[] | undefined> {
+        const files = folderPath ? await this.findImagesIn(folderPath, token) : await DuplicateService.findImages(token);
+        if (token.isCancellationRequested) return undefined;
+
+        const converted = this.getConvertedFiles();
+        const items: OptimizeItem[] = [];
+        for (const [index, filePath] of files.entries()) {
+            if (token.isCancellationRequested) return undefined;
+            progress.report({ message: `${index + 1}/${files.length} ${path.basename(filePath)}`, increment: 100 / files.length });
+            items.push(await this.classify(filePath, converted));
+        }
+        return items;
+    }
+
+    /**
+     * Images under a folder, minus .upflyignore. Files outside any target use the default settings.
+     */
+    private static async findImagesIn(folderPath: string, token: vscode.CancellationToken): Promise<string[]> {
+        const config = ConfigService.getInstance();
+        const uris = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(vscode.Uri.file(folderPath), `**/*.${this.EXTENSIONS_GLOB}`),
+            '**/{node_modules,.upfly,.git}/**',
+            undefined,
+            token
+        );
+        return uris.map(uri => uri.fsPath).filter(filePath => !config.isIgnored(filePath)).sort();
+    }
+
+    /**
+     * Sources Upfly already converted (outputs still on disk) and the outputs themselves, from conversions.json.
+     * Moved originals come from the history journal.
+     */
+    private static getConvertedFiles(): ConvertedFiles {
+        const sources = new Set<string>();
+        const outputs = new Set<string>();
+        for (const folder of WorkspaceService.getFolders()) {
+            for (const record of ConversionLogService.read(folder.uri.fsPath)) {
+                record.outputPaths.forEach(outputPath => outputs.add(outputPath));
+                if (record.outputPaths.some(outputPath => outputPath !== record.sourcePath && fs.existsSync(outputPath))) {
+                    sources.add(record.sourcePath);
+                }
+            }
+        }
+        const backups = new Set(HistoryService.read().flatMap(entry => entry.original.movedTo ?? []));
+        return { sources, outputs, backups };
+    }
+
+    /**
+     * A moved original, by the journal or - for entries it no longer holds - by name or location
+     */
+    private static isBackup(filePath: string, converted: ConvertedFiles): boolean {
+        if (converted.backups.has(filePath)) return true;
+        if (this.BACKUP_NAME_PATTERN.test(path.parse(filePath).name)) return true;
+
+        const { originalDirectory } = ConfigService.getInstance().getStorageOptions(filePath);
+        if (!originalDirectory) return false;
+        const originalDir = path.resolve(WorkspaceService.getRoot(filePath) || path.dirname(filePath), originalDirectory);
+        const relativePath = path.relative(originalDir, filePath);
+        return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    }
+
+    private static async classify(filePath: string, converted: ConvertedFiles): Promise<OptimizeItem> {
+        const config = ConfigService.getInstance();
+        const { size } = await fs.promises.stat(filePath);
+        const skip = (reason: string): OptimizeItem => ({ filePath, size, action: 'skip', reason });
+
+        if (config.getSpriteForFile(filePath)) return skip('sprite source');
+        // Uploading a whole backlog is out of scope - cloud targets only handle new files
+        if (config.isCloudTarget(filePath)) return skip(this.CLOUD_TARGET_REASON);
+        if (converted.outputs.has(filePath)) return skip('written by Upfly');
+        if (this.isBackup(filePath, converted)) return skip('original kept by Upfly');
+        if (converted.sources.has(filePath)) return skip('already converted');
+        if (!(await ConverterService.isValidImage(filePath))) return skip('not a supported image');
+
+        const options = this.getConversionOptions(filePath);
+        if (options.maxFileSize && size > options.maxFileSize && (options.oversizePolicy ?? 'skip') === 'skip') {
+            return skip(`over maxFileSize (${ConverterService.formatBytes(options.maxFileSize)})`);
+        }
+
+        const ext = path.extname(filePath).slice(1).toLowerCase();
+        const sourceFormat = ext === 'jpg' ? 'jpeg' : ext;
+        return { filePath, size, action: sourceFormat === options.format ? 'recompress' : 'convert', options };
+    }
+
+    /**
+     * The same options the watcher would use for a new file at this path
+     */
+    private static getConversionOptions(filePath: string): ConversionOptions {
+        const config = ConfigService.getInstance();
+        return {
+            ...config.getOptionsForPath(filePath),
+            ...config.getStorageOptions(filePath),
+            quiet: true
+        };
+    }
+
+    /**
+     * Dry run: encode in memory to fill in estimated sizes. Files the size guard would keep are
+     * turned into skips, unless the run would still write something for them (a copy in the output
+     * folder, or responsive sizes). Resolves false if cancelled.
+     */
+    static async estimate(items: OptimizeItem[], progress: Progress, token: vscode.CancellationToken): Promise<boolean> {
+        await this.runQueued(items, progress, token, async item => {
+            try {
+                const { outputs } = await ConverterService.convertToBuffer(item.filePath, item.options!);
+                const fullSize = outputs.find(o => o.width === undefined);
+                item.variantCount = outputs.length - (fullSize ? 1 : 0);
+                item.estimatedSize = fullSize?.size ?? outputs.reduce((total, o) => total + o.size, 0);
+                if (fullSize?.original) {
+                    item.keepsOriginal = true;
+                    if (!item.variantCount && !ConverterService.copiesKeptSource(item.filePath, item.options!)) {
+                        item.action = 'skip';
+                        item.reason = `not smaller as ${item.options!.format}`;
+                    }
+                }
+            } catch (error: any) {
+                item.action = 'skip';
+                item.reason = `failed: ${error.message}`;
+            }
+        });
+        return !token.isCancellationRequested;
+    }
+
+    /**
+     * Convert every non-skipped item on disk
+     */
+    static async run(items: OptimizeItem[], progress: Progress, token: vscode.CancellationToken): Promise<OptimizeSummary> {
+        const summary: OptimizeSummary = { optimized: 0, unchanged: 0, cancelled: false };
+        await this.runQueued(items.filter(item => item.action !== 'skip'), progress, token, async item => {
+            if (await ConverterService.convertFile(item.filePath, item.options!)) {
+                summary.optimized++;
+            } else {
+                summary.unchanged++;
+            }
+        });
+        summary.cancelled = token.isCancellationRequested;
+        return summary;
+    }
+
+    /**
+     * Queue one task per item and wait for all of them. Items not started before cancellation are dropped.
+     */
+    private static runQueued(
+        items: OptimizeItem[],
+        progress: Progress,
+        token: vscode.CancellationToken,
+        task: (item: OptimizeItem) => Promise<void>
+    ): Promise<void> {
+        return new Promise(resolve => {
+            let remaining = items.length;
+            if (remaining === 0) return resolve();
+
+            for (const item of items) {
+                globalQueue.add(async () => {
+                    try {
+                        if (!token.isCancellationRequested) {
+                            progress.report({ message: path.basename(item.filePath), increment: 100 / items.length });
+                            await task(item);
+                        }
+                    } finally {
+                        if (--remaining === 0) resolve();
+                    }
+                });
+            }
+        });
+    }
+
+    /**
+     * Dry-run report: one table row per scanned file
+     */
+    static toMarkdown(items: OptimizeItem[], scope: string): string {
+        const planned = items.filter(item => item.action !== 'skip');
+        const count = (action: OptimizeAction) => items.filter(item => item.action === action).length;
+        const before = planned.reduce((total, item) => total + item.size, 0);
+        const after = planned.reduce((total, item) => total + (item.estimatedSize ?? item.size), 0);
+        const savings = before > 0 ? Math.round((before - after) / before * 100) : 0;
+
+        const lines = [
+            '# Upfly: Optimize (Dry Run)',
+            '',
+            `**Scope:** ${scope}`,
+            '',
+            `${items.length} images scanned: ${count('convert')} to convert, ${count('recompress')} to recompress, ${count('skip')} skipped.`,
+            '',
+            ...this.describeKeptAndCloud(items),
+            `Estimated size of the files to optimize: ${ConverterService.formatBytes(before)} → ${ConverterService.formatBytes(after)} (${savings}% smaller).`,
+            '',
+            'Nothing has been modified yet.',
+            '',
+            '| File | Current size | Estimated size | Action |',
+            '| --- | ---: | ---: | --- |'
+        ];
+        for (const item of items) {
+            const estimated = item.estimatedSize !== undefined ? ConverterService.formatBytes(item.estimatedSize) : '–';
+            lines.push(`| ${this.escape(this.getDisplayPath(item.filePath))} | ${ConverterService.formatBytes(item.size)} | ${estimated} | ${this.escape(this.describeAction(item))} |`);
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Summary lines for originals the size guard keeps and for skipped cloud targets
+     */
+    private static describeKeptAndCloud(items: OptimizeItem[]): string[] {
+        const lines: string[] = [];
+        const kept = items.filter(item => item.action !== 'skip' && item.keepsOriginal).length;
+        if (kept > 0) {
+            lines.push(`${kept} of them would not get smaller: the original is kept, and only copied or resized as listed.`, '');
+        }
+        const cloud = items.filter(item => item.reason === this.CLOUD_TARGET_REASON).length;
+        if (cloud > 0) {
+            lines.push(`${cloud} images in cloud upload targets were skipped - Optimize only converts local files. Cloud targets upload new images as they are added.`, '');
+        }
+        return lines;
+    }
+
+    private static describeAction(item: OptimizeItem): string {
+        if (item.action === 'skip') return `skip: ${item.reason}`;
+
+        const options = item.options!;
+        if (item.keepsOriginal) {
+            let action = `keep original (not smaller as ${options.format})`;
+            if (ConverterService.copiesKeptSource(item.filePath, options)) action += `, copied into ${options.outputDirectory}`;
+            if (item.variantCount) action += ` (+${item.variantCount} sizes)`;
+            return action;
+        }
+
+        let action = item.action === 'convert' ? `convert to ${options.format}` : `recompress as ${options.format}`;
+        if (item.variantCount) action += ` (+${item.variantCount} sizes)`;
+        if (options.storageMode === 'separate-output' && options.outputDirectory) {
+            action += `, into ${options.outputDirectory}`;
+        } else if (options.storageMode === 'separate-original' && options.originalDirectory) {
+            action += `, original moved to ${options.originalDirectory}`;
+        } else if (options.storageMode === 'in-place') {
+            action += options.inPlaceKeepOriginal ? ', in place (original kept)' : ', in place';
+        }
+        return action;
+    }
+
+    /**
+     * Workspace-relative path, prefixed with the folder name in multi-root workspaces
+     */
+    private static getDisplayPath(filePath: string): string {
+        const folder = WorkspaceService.getFolder(filePath);
+        if (!folder) return filePath;
+        const relativePath = path.relative(folder.uri.fsPath, filePath).replace(/\\/g, '/');
+        return WorkspaceService.getFolders().length > 1 ? `${folder.name}/${relativePath}` : relativePath;
+    }
+
+    private static escape(text: string): string {
+        return text.replace(/\|/g, '\\|');
+    }
+}
@@ -0,0 +1,179 @@
+/**
+ * PlaceholderService - Layout/blur placeholders for converted images
+ *
+ * Computes intrinsic size, a BlurHash string, a tiny base64 LQIP and the dominant color,
+ * and keeps them in .upfly/placeholders.json keyed by workspace-relative output path.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { encode } from 'blurhash';
+import { WorkspaceService } from './WorkspaceService';
+
+export interface Placeholder {
+    width: number;
+    height: number;
+    blurhash: string;
+    lqip: string;  // data:image/webp;base64,... (~16px wide)
+    dominantColor: string;  // #rrggbb
+}
+
+interface PlaceholdersFile {
+    placeholders: Record<string, Placeholder>;
+}
+
+export class PlaceholderService {
+    // BlurHash only needs a handful of pixels; 4x3 components is the library's recommended default
+    private static readonly BLURHASH_SIZE = 32;
+    private static readonly BLURHASH_COMPONENTS: [number, number] = [4, 3];
+    private static readonly LQIP_SIZE = 16;
+    private static readonly LQIP_QUALITY = 40;
+
+    /**
+     * Compute the placeholder for an encoded image (first frame for animations)
+     */
+    static async generate(buffer: Buffer): Promise<Placeholder> {
+        const metadata = await sharp(buffer).metadata();
+        const width = metadata.width ?? 0;
+        const height = metadata.pageHeight ?? metadata.height ?? 0;
+
+        const { data, info } = await sharp(buffer)
+            .resize(this.BLURHASH_SIZE, this.BLURHASH_SIZE, { fit: 'inside' })
+            .ensureAlpha()
+            .raw()
+            .toBuffer({ resolveWithObject: true });
+        const [componentX, componentY] = this.BLURHASH_COMPONENTS;
+        const blurhash = encode(new Uint8ClampedArray(data), info.width, info.height, componentX, componentY);
+
+        const lqip = await sharp(buffer)
+            .resize(this.LQIP_SIZE, this.LQIP_SIZE, { fit: 'inside' })
+            .webp({ quality: this.LQIP_QUALITY })
+            .toBuffer();
+
+        const { dominant } = await sharp(buffer).stats();
+        const dominantColor = '#' + [dominant.r, dominant.g, dominant.b]
+            .map(channel => channel.toString(16).padStart(2, '0'))
+            .join('');
+
+        return {
+            width,
+            height,
+            blurhash,
+            lqip: `data:image/webp;base64,${lqip.toString('base64')}`,
+            dominantColor
+        };
+    }
+
+    /**
+     * Placeholder for a resized copy of an image: blur data is shared, only the size changes
+     */
+    private static async forVariant(base: Placeholder, buffer: Buffer): Promise<Placeholder> {
+        const metadata = await sharp(buffer).metadata();
+        return {
+            ...base,
+            width: metadata.width ?? base.width,
+            height: metadata.pageHeight ?? metadata.height ?? base.height
+        };
+    }
+
+    /**
+     * Placeholders for a set of outputs of one source (full size + responsive variants).
+     * The blur data is computed once, from the full-size output (or the widest variant).
+     */
+    static async generateAll(outputs: Array<{ buffer: Buffer; width?: number }>): Promise<Placeholder[]> {
+        if (outputs.length === 0) return [];
+
+        const largest = outputs.find(o => o.width === undefined)
+            ?? outputs.reduce((widest, o) => (o.width ?? 0) > (widest.width ?? 0) ? o : widest);
+        const base = await this.generate(largest.buffer);
+
+        return Promise.all(outputs.map(o => o === largest ? base : this.forVariant(base, o.buffer)));
+    }
+
+    /**
+     * placeholders.json of the workspace folder owning `outputPath`
+     */
+    private static getFilePath(outputPath?: string): string {
+        return path.join(WorkspaceService.getUpflyDir(outputPath), 'placeholders.json');
+    }
+
+    /**
+     * Manifest key for an output file: relative to its workspace folder, forward slashes
+     */
+    static getKey(outputPath: string): string {
+        const workspaceRoot = WorkspaceService.getRoot(outputPath);
+        const relativePath = workspaceRoot ? path.relative(workspaceRoot, outputPath) : outputPath;
+        return relativePath.replace(/\\/g, '/');
+    }
+
+    /**
+     * Edit the manifest of the folder owning `outputPath` (all paths of one conversion share it)
+     */
+    private static update(outputPath: string, change: (placeholders: Record<string, Placeholder>) => void): void {
+        try {
+            const filePath = this.getFilePath(outputPath);
+            let data: PlaceholdersFile = { placeholders: {} };
+
+            try {
+                if (fs.existsSync(filePath)) {
+                    data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+                }
+            } catch (e) {
+                // Start fresh if parse fails
+                data = { placeholders: {} };
+            }
+
+            change(data.placeholders);
+            fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+        } catch (e) {
+            console.error('Upfly: Failed to write placeholders.json', e);
+        }
+    }
+
+    /**
+     * Generate and store placeholders for files just written to disk. Never throws.
+     */
+    static async record(outputs: Array<{ outputPath: string; buffer: Buffer; width?: number }>): Promise<void> {
+        if (outputs.length === 0) return;
+        try {
+            const generated = await this.generateAll(outputs);
+            this.update(outputs[0].outputPath, placeholders => {
+                outputs.forEach((output, i) => {
+                    placeholders[this.getKey(output.outputPath)] = generated[i];
+                });
+            });
+        } catch (e) {
+            console.error('Upfly: Failed to generate placeholders', e);
+        }
+    }
+
+    /**
+     * Forget placeholders of outputs that no longer exist (e.g. after a restore). Never throws.
+     */
+    static remove(outputPaths: string[]): void {
+        if (outputPaths.length === 0) return;
+        this.update(outputPaths[0], placeholders => {
+            for (const outputPath of outputPaths) {
+                delete placeholders[this.getKey(outputPath)];
+            }
+        });
+    }
+
+    /**
+     * Read all placeholders of a workspace folder (default: the first), keyed by folder-relative output path
+     */
+    static read(outputPath?: string): Record<string, Placeholder> {
+        try {
+            const filePath = this.getFilePath(outputPath);
+            if (fs.existsSync(filePath)) {
+                const data: PlaceholdersFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+                return data.placeholders || {};
+            }
+        } catch (e) {
+            console.error('Upfly: Failed to read placeholders.json', e);
+        }
+
+        return {};
+    }
+}
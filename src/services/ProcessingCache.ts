@@ -1,4 +1,7 @@
+import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import { pipeline } from 'stream/promises';
 
 /**
  * ProcessingCache
@@ -7,9 +10,21 @@ import * as path from 'path';
  * When the file watcher sees a file, it checks this cache.
  * If found, it's our file -> Remove from cache & Ignore.
  * If not found, it's a user file -> Process.
+ * Entries expire after a few seconds, so a write that never produced an event (reprocessOnChange off,
+ * or an event coalesced away) can't swallow the user's next real edit.
+ *
+ * For change events (reprocessOnChange) it also remembers the last content hash seen or written per path,
+ * so a save that doesn't change the bytes - or a late event for our own write - is not reprocessed.
  */
 export class ProcessingCache {
-    private static cache = new Set<string>();
+    // Oldest hashes are evicted past this many paths (conversions.json / uploads.json remember the rest)
+    private static readonly MAX_HASHES = 1000;
+    // How long after add() an event still counts as our own write
+    private static readonly SELF_WRITE_TTL_MS = 10_000;
+
+    // Path -> when the entry expires
+    private static cache = new Map<string, number>();
+    private static hashes = new Map<string, string>();
 
     /**
      * Mark a file path as "being generated by Upfly".
@@ -18,7 +33,8 @@ export class ProcessingCache {
     static add(filePath: string) {
         // Normalize path to handle Windows/Unix consistency
         const normalized = path.normalize(filePath);
-        this.cache.add(normalized);
+        this.cache.set(normalized, Date.now() + this.SELF_WRITE_TTL_MS);
+        this.pruneExpired();
     }
 
     /**
@@ -27,10 +43,48 @@ export class ProcessingCache {
      */
     static consume(filePath: string): boolean {
         const normalized = path.normalize(filePath);
-        if (this.cache.has(normalized)) {
-            this.cache.delete(normalized);
-            return true;
+        const expiresAt = this.cache.get(normalized);
+        this.cache.delete(normalized);
+        return expiresAt !== undefined && expiresAt > Date.now();
+    }
+
+    private static pruneExpired() {
+        const now = Date.now();
+        for (const [filePath, expiresAt] of this.cache) {
+            if (expiresAt <= now) this.cache.delete(filePath);
         }
-        return false;
+    }
+
+    static hash(buffer: Buffer): string {
+        return crypto.createHash('sha256').update(buffer).digest('hex');
+    }
+
+    /**
+     * Same as hash(), streamed from disk so the file is never held in memory
+     */
+    static async hashFile(filePath: string): Promise<string> {
+        const hash = crypto.createHash('sha256');
+        await pipeline(fs.createReadStream(filePath), hash);
+        return hash.digest('hex');
+    }
+
+    /**
+     * Remember the content now at `filePath` (a file we wrote, or a source we processed)
+     */
+    static rememberContent(filePath: string, hash: string) {
+        // Re-inserting keeps the Map in least-recently-remembered order
+        const normalized = path.normalize(filePath);
+        this.hashes.delete(normalized);
+        this.hashes.set(normalized, hash);
+        if (this.hashes.size > this.MAX_HASHES) {
+            this.hashes.delete(this.hashes.keys().next().value!);
+        }
+    }
+
+    /**
+     * Whether `filePath` still holds the content remembered for it
+     */
+    static isKnownContent(filePath: string, hash: string): boolean {
+        return this.hashes.get(path.normalize(filePath)) === hash;
     }
 }
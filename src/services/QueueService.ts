@@ -11,7 +11,7 @@ type Task = () => Promise<void>;
 export class QueueService {
     private queue: Task[] = [];
     private activeWorkers = 0;
-    private readonly CONCURRENCY_LIMIT = 3;
+    private concurrency = 3;
     private statusBarItem: vscode.StatusBarItem;
     private totalTasks = 0;
     private completedTasks = 0;
@@ -21,6 +21,16 @@ export class QueueService {
         this.statusBarItem.command = 'upfly.showStats';
     }
 
+    /**
+     * Change how many tasks run at once (follows the encoder pool size)
+     */
+    setConcurrency(limit: number) {
+        this.concurrency = Math.max(1, limit);
+        for (let i = this.activeWorkers; i < this.concurrency; i++) {
+            this.processNext();
+        }
+    }
+
     /**
      * Add a processing task to the queue.
      * @param task Async function that processes a single file
@@ -33,7 +43,7 @@ export class QueueService {
     }
 
     private async processNext() {
-        if (this.activeWorkers >= this.CONCURRENCY_LIMIT || this.queue.length === 0) {
+        if (this.activeWorkers >= this.concurrency || this.queue.length === 0) {
             return;
         }
 
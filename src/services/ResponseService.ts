@@ -2,13 +2,19 @@
  * ResponseService - Manages .upfly/uploads.json for cloud upload responses
  */
 
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { Placeholder } from './PlaceholderService';
+import { WorkspaceService } from './WorkspaceService';
 
 export interface UploadRecord {
     localPath: string;
     convertedFormat?: string;
+    variantWidth?: number;
+    quality?: number;
+    ssim?: number;
+    placeholder?: Placeholder;  // Intrinsic size + BlurHash/LQIP/dominant color of the uploaded image
+    sourceHash?: string;  // sha256 of the local source when it was uploaded
     cloudUrl?: string;
     cloudPublicId?: string;
     provider?: string;
@@ -24,23 +30,18 @@ interface UploadsFile {
 }
 
 export class ResponseService {
-    private static getFilePath(): string {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!workspaceRoot) throw new Error('No workspace folder');
-        
-        const upflyDir = path.join(workspaceRoot, '.upfly');
-        if (!fs.existsSync(upflyDir)) {
-            fs.mkdirSync(upflyDir, { recursive: true });
-        }
-        
-        return path.join(upflyDir, 'uploads.json');
+    /**
+     * uploads.json of the workspace folder owning `localPath`
+     */
+    private static getFilePath(localPath?: string): string {
+        return path.join(WorkspaceService.getUpflyDir(localPath), 'uploads.json');
     }
 
     /**
      * Append a new upload record to the responses file
      */
     static append(record: UploadRecord): void {
-        const filePath = this.getFilePath();
+        const filePath = this.getFilePath(record.localPath);
         let data: UploadsFile = { uploads: [] };
 
         try {
@@ -58,10 +59,10 @@ export class ResponseService {
     }
 
     /**
-     * Read all upload records
+     * Read all upload records of a workspace folder (default: the first)
      */
-    static read(): UploadRecord[] {
-        const filePath = this.getFilePath();
+    static read(localPath?: string): UploadRecord[] {
+        const filePath = this.getFilePath(localPath);
         
         try {
             if (fs.existsSync(filePath)) {
@@ -76,11 +77,24 @@ export class ResponseService {
         return [];
     }
 
+    /**
+     * Latest successful upload of a local file per responsive width (undefined = full size)
+     */
+    static findUploads(localPath: string): UploadRecord[] {
+        const latest = new Map<number | undefined, UploadRecord>();
+        for (const record of this.read(localPath)) {
+            if (record.localPath === localPath && record.status === 'success') {
+                latest.set(record.variantWidth, record);
+            }
+        }
+        return [...latest.values()];
+    }
+
     /**
      * Clear all records (for testing/reset)
      */
-    static clear(): void {
-        const filePath = this.getFilePath();
+    static clear(localPath?: string): void {
+        const filePath = this.getFilePath(localPath);
         fs.writeFileSync(filePath, JSON.stringify({ uploads: [] }, null, 2));
     }
 }
@@ -0,0 +1,69 @@
+/**
+ * SimilarityService - Perceptual similarity metrics computed from sharp's raw pixel output
+ */
+
+import sharp from 'sharp';
+
+export class SimilarityService {
+    private static readonly WINDOW = 8;
+
+    // Standard SSIM stabilisers for 8-bit data: (0.01 * 255)^2 and (0.03 * 255)^2
+    private static readonly C1 = 6.5025;
+    private static readonly C2 = 58.5225;
+
+    /**
+     * Decode an image to single-channel luma at the given size.
+     * Transparent areas are flattened onto white so alpha doesn't skew the score.
+     */
+    static async toLuma(input: Buffer | sharp.Sharp, width: number, height: number): Promise<Buffer> {
+        const image = Buffer.isBuffer(input) ? sharp(input) : input;
+        return image
+            .resize(width, height, { fit: 'fill' })
+            .flatten({ background: '#ffffff' })
+            .greyscale()
+            .raw()
+            .toBuffer();
+    }
+
+    /**
+     * Mean SSIM over non-overlapping 8x8 windows of two luma buffers of equal size.
+     * 1 means identical; values above ~0.97 are usually visually indistinguishable.
+     */
+    static ssim(reference: Buffer, candidate: Buffer, width: number, height: number): number {
+        const { WINDOW, C1, C2 } = this;
+        const pixels = WINDOW * WINDOW;
+        let total = 0;
+        let windows = 0;
+
+        for (let y = 0; y + WINDOW <= height; y += WINDOW) {
+            for (let x = 0; x + WINDOW <= width; x += WINDOW) {
+                let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+
+                for (let wy = 0; wy < WINDOW; wy++) {
+                    const row = (y + wy) * width + x;
+                    for (let wx = 0; wx < WINDOW; wx++) {
+                        const a = reference[row + wx];
+                        const b = candidate[row + wx];
+                        sumA += a;
+                        sumB += b;
+                        sumAA += a * a;
+                        sumBB += b * b;
+                        sumAB += a * b;
+                    }
+                }
+
+                const meanA = sumA / pixels;
+                const meanB = sumB / pixels;
+                const varA = sumAA / pixels - meanA * meanA;
+                const varB = sumBB / pixels - meanB * meanB;
+                const covariance = sumAB / pixels - meanA * meanB;
+
+                total += ((2 * meanA * meanB + C1) * (2 * covariance + C2)) /
+                    ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+                windows++;
+            }
+        }
+
+        return windows > 0 ? total / windows : 1;
+    }
+}
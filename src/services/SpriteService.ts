@@ -0,0 +1,184 @@
+/**
+ * SpriteService - Packs the images of one folder into a sprite sheet
+ *
+ * Writes the atlas (PNG/WebP) plus a JSON and a CSS coordinates map next to it.
+ * Packing is a simple shelf packer: sprites sorted by height, filled row by row.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { ProcessingCache } from './ProcessingCache';
+import { SpriteConfig } from './ConfigService';
+import { WorkspaceService } from './WorkspaceService';
+
+export type SpriteOptions = Omit<SpriteConfig, 'path'>;
+
+interface SpriteImage {
+    name: string;
+    buffer: Buffer;
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+}
+
+export interface SpriteResult {
+    atlasPath: string;
+    jsonPath: string;
+    cssPath: string;
+    count: number;
+    width: number;
+    height: number;
+}
+
+export class SpriteService {
+    private static readonly EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.avif', '.gif', '.tiff', '.svg'];
+    private static readonly DEFAULT_PADDING = 2;
+    private static readonly DEFAULT_MAX_SIZE = 2048;
+
+    /**
+     * Image files directly inside the folder (sub-folders are not included)
+     */
+    static listImages(folderPath: string): string[] {
+        return fs.readdirSync(folderPath, { withFileTypes: true })
+            .filter(entry => entry.isFile() && this.EXTENSIONS.includes(path.extname(entry.name).toLowerCase()))
+            .map(entry => path.join(folderPath, entry.name))
+            .sort();
+    }
+
+    static async generate(folderPath: string, options: SpriteOptions = {}): Promise<SpriteResult> {
+        const files = this.listImages(folderPath);
+        if (files.length === 0) {
+            throw new Error(`No images found in ${path.basename(folderPath)}`);
+        }
+
+        const format = options.format ?? 'png';
+        const padding = options.padding ?? this.DEFAULT_PADDING;
+        const maxSize = options.maxSize ?? this.DEFAULT_MAX_SIZE;
+        const className = options.className ?? this.toClassName(path.basename(folderPath));
+
+        const images = await this.loadImages(files);
+        const { width, height } = this.pack(images, padding, maxSize);
+
+        const workspaceRoot = WorkspaceService.getRoot(folderPath) || path.dirname(folderPath);
+        const outputBase = options.output ? path.resolve(workspaceRoot, options.output) : folderPath;
+        const atlasPath = `${outputBase}.${format}`;
+        const jsonPath = `${outputBase}.json`;
+        const cssPath = `${outputBase}.css`;
+        fs.mkdirSync(path.dirname(outputBase), { recursive: true });
+
+        const atlas = sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+            .composite(images.map(image => ({ input: image.buffer, left: image.x, top: image.y })));
+        const buffer = format === 'webp'
+            ? await atlas.webp(options.quality === undefined ? { lossless: true } : { quality: options.quality }).toBuffer()
+            : await atlas.png({ compressionLevel: 9 }).toBuffer();
+
+        // The atlas may sit inside a watch target - don't let the watcher convert it
+        ProcessingCache.add(atlasPath);
+        fs.writeFileSync(atlasPath, buffer);
+        ProcessingCache.rememberContent(atlasPath, ProcessingCache.hash(buffer));
+
+        const imageName = path.basename(atlasPath);
+        const sprites: Record<string, { x: number; y: number; width: number; height: number }> = {};
+        for (const image of images) {
+            sprites[image.name] = { x: image.x, y: image.y, width: image.width, height: image.height };
+        }
+        fs.writeFileSync(jsonPath, JSON.stringify({ image: imageName, width, height, sprites }, null, 2) + '\n');
+        fs.writeFileSync(cssPath, this.createCss(images, imageName, className, width, height, folderPath, workspaceRoot));
+
+        return { atlasPath, jsonPath, cssPath, count: images.length, width, height };
+    }
+
+    private static async loadImages(files: string[]): Promise<SpriteImage[]> {
+        const images: SpriteImage[] = [];
+        const classNames = new Map<string, string>();
+
+        for (const file of files) {
+            const name = path.parse(file).name;
+            const cssName = this.toClassName(name);
+            const clash = classNames.get(cssName);
+            if (clash) {
+                throw new Error(`${clash} and ${path.basename(file)} would both be named "${cssName}"`);
+            }
+            classNames.set(cssName, path.basename(file));
+
+            // Orientation is baked in; animations contribute their first frame
+            const { data, info } = await sharp(fs.readFileSync(file)).rotate().png().toBuffer({ resolveWithObject: true });
+            images.push({ name, buffer: data, width: info.width, height: info.height, x: 0, y: 0 });
+        }
+        return images;
+    }
+
+    /**
+     * Shelf packing. Tries a roughly square sheet first, then the full maxSize width.
+     * Sets x/y on every image and returns the atlas size.
+     */
+    private static pack(images: SpriteImage[], padding: number, maxSize: number): { width: number; height: number } {
+        const tooLarge = images.find(image => image.width > maxSize || image.height > maxSize);
+        if (tooLarge) {
+            throw new Error(`${tooLarge.name} (${tooLarge.width}×${tooLarge.height}) is larger than maxSize ${maxSize}px`);
+        }
+
+        const sorted = [...images].sort((a, b) => b.height - a.height || b.width - a.width);
+        const area = images.reduce((total, image) => total + (image.width + padding) * (image.height + padding), 0);
+        const widest = Math.max(...images.map(image => image.width));
+        const squareWidth = Math.min(maxSize, Math.max(widest, Math.ceil(Math.sqrt(area))));
+
+        for (const sheetWidth of [...new Set([squareWidth, maxSize])]) {
+            let x = 0;
+            let y = 0;
+            let shelfHeight = 0;
+            let usedWidth = 0;
+
+            for (const image of sorted) {
+                if (x > 0 && x + image.width > sheetWidth) {
+                    y += shelfHeight + padding;
+                    x = 0;
+                    shelfHeight = 0;
+                }
+                image.x = x;
+                image.y = y;
+                x += image.width + padding;
+                shelfHeight = Math.max(shelfHeight, image.height);
+                usedWidth = Math.max(usedWidth, image.x + image.width);
+            }
+
+            const usedHeight = y + shelfHeight;
+            if (usedHeight <= maxSize) {
+                return { width: usedWidth, height: usedHeight };
+            }
+        }
+
+        throw new Error(`${images.length} images don't fit in a ${maxSize}×${maxSize} atlas. Raise "maxSize" or split the folder`);
+    }
+
+    private static createCss(
+        images: SpriteImage[],
+        imageName: string,
+        className: string,
+        width: number,
+        height: number,
+        folderPath: string,
+        workspaceRoot: string
+    ): string {
+        const source = path.relative(workspaceRoot, folderPath).replace(/\\/g, '/');
+        const rules = images.map(image =>
+            `.${className}-${this.toClassName(image.name)} { width: ${image.width}px; height: ${image.height}px; ` +
+            `background-position: ${-image.x}px ${-image.y}px; }`
+        );
+
+        return [
+            `/* Generated by Upfly from ${source} - do not edit */`,
+            `.${className} { display: inline-block; background-image: url("${imageName}"); ` +
+            `background-repeat: no-repeat; background-size: ${width}px ${height}px; }`,
+            ...rules,
+            ''
+        ].join('\n');
+    }
+
+    private static toClassName(name: string): string {
+        const className = name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '');
+        return /^[a-z_-]/.test(className) ? className : `s-${className}`;
+    }
+}
@@ -4,15 +4,27 @@ import * as path from 'path';
 import { ConverterService } from './ConverterService';
 import { globalQueue } from './QueueService';
 import { ProcessingCache } from './ProcessingCache';
-import { ConfigService } from './ConfigService';
+import { ConfigService, ImageOptions } from './ConfigService';
 import { CloudService } from './CloudService';
+import { PlaceholderService } from './PlaceholderService';
+import { SpriteService } from './SpriteService';
+import { FileNameService } from './FileNameService';
+import { BufferOutput } from './EncoderService';
+import { DuplicateService, HashedImage } from './DuplicateService';
+import { WorkspaceService } from './WorkspaceService';
+import { ResponseService, UploadRecord } from './ResponseService';
+import { ConversionLogService } from './ConversionLogService';
 
 export class WatcherService {
-    private watchers: vscode.FileSystemWatcher[] = [];
+    // Keyed by workspace folder path - each root watches its own targets
+    private watchers = new Map<string, vscode.FileSystemWatcher[]>();
     private processingFiles: Set<string> = new Set();
+    private spriteTimers = new Map<string, NodeJS.Timeout>();
     
     // Supported extensions for Glob generation
     private static readonly EXTENSIONS_GLOB = '{png,jpg,jpeg,webp,avif,tiff,gif}';
+    private static readonly SPRITE_EXTENSIONS_GLOB = '{png,jpg,jpeg,webp,avif,tiff,gif,svg}';
+    private static readonly SPRITE_REBUILD_DELAY = 500;
 
     // Debounced notification for cloud uploads
     private static uploadDebounceTimer: NodeJS.Timeout | null = null;
@@ -21,10 +33,28 @@ export class WatcherService {
 
     public initialize() {
         this.dispose();
+        WorkspaceService.getFolders().forEach(folder => this.watchFolder(folder));
+    }
+
+    /**
+     * Recreate one folder's watchers after its config changed (or drop them if it left the workspace)
+     */
+    public reloadFolder(folder: vscode.WorkspaceFolder) {
+        const workspaceRoot = folder.uri.fsPath;
+        this.watchers.get(workspaceRoot)?.forEach(w => w.dispose());
+        this.watchers.delete(workspaceRoot);
 
+        if (WorkspaceService.getFolders().some(f => f.uri.fsPath === workspaceRoot)) {
+            this.watchFolder(folder);
+        }
+    }
+
+    private watchFolder(folder: vscode.WorkspaceFolder) {
         const config = ConfigService.getInstance();
-        const enabled = config.get<boolean>('enabled');
-        const rawWatchTargets = config.get<any>('watchTargets');
+        const workspaceRoot = folder.uri.fsPath;
+        const enabled = config.get<boolean>('enabled', workspaceRoot);
+        const rawWatchTargets = config.get<any>('watchTargets', workspaceRoot);
+        const reprocessOnChange = config.get<boolean>('reprocessOnChange', workspaceRoot);
 
         if (!enabled) return;
 
@@ -32,19 +62,77 @@ export class WatcherService {
         const rootPaths = this.extractPaths(rawWatchTargets);
         
         // Also get cloud watch targets (for cloud-only folders)
-        const cloudPaths = config.getCloudWatchTargets();
+        const cloudPaths = config.getCloudWatchTargets(workspaceRoot);
         
         // Merge paths (Set removes duplicates)
         const allPaths = [...new Set([...rootPaths, ...cloudPaths])];
         
         const optimizedPatterns = this.optimizeWatchTargets(allPaths);
+        const watchers: vscode.FileSystemWatcher[] = [];
 
         optimizedPatterns.forEach(pattern => {
-            console.log(`Upfly: Watching ${pattern}`);
-            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            console.log(`Upfly: Watching ${pattern} in ${folder.name}`);
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, pattern));
             watcher.onDidCreate((uri) => this.onFileEvent(uri)); 
-            this.watchers.push(watcher);
+            if (reprocessOnChange) {
+                watcher.onDidChange((uri) => this.onFileEvent(uri, true));
+            }
+            watchers.push(watcher);
         });
+
+        watchers.push(...this.watchSpriteFolders(config, folder));
+        this.watchers.set(workspaceRoot, watchers);
+    }
+
+    /**
+     * Rebuild a sprite sheet whenever an image in its folder is added, changed or removed
+     */
+    private watchSpriteFolders(config: ConfigService, workspaceFolder: vscode.WorkspaceFolder): vscode.FileSystemWatcher[] {
+        const watchers: vscode.FileSystemWatcher[] = [];
+        for (const sprite of config.getSpriteConfigs(workspaceFolder.uri.fsPath)) {
+            const folder = this.normalizePath(sprite.path);
+            if (!folder) continue;
+
+            const folderPath = path.join(workspaceFolder.uri.fsPath, folder);
+            const pattern = new vscode.RelativePattern(workspaceFolder, `${folder}/*.${WatcherService.SPRITE_EXTENSIONS_GLOB}`);
+            console.log(`Upfly: Watching sprite folder ${folder}`);
+
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            const rebuild = () => this.scheduleSpriteRebuild(folderPath);
+            watcher.onDidCreate(rebuild);
+            watcher.onDidChange(rebuild);
+            watcher.onDidDelete(rebuild);
+            watchers.push(watcher);
+        }
+        return watchers;
+    }
+
+    private scheduleSpriteRebuild(folderPath: string) {
+        const pending = this.spriteTimers.get(folderPath);
+        if (pending) clearTimeout(pending);
+
+        // Debounced: copying 30 icons in should rebuild once
+        this.spriteTimers.set(folderPath, setTimeout(() => {
+            this.spriteTimers.delete(folderPath);
+            const sprite = ConfigService.getInstance().getSpriteForFolder(folderPath);
+            if (!sprite) return;
+
+            globalQueue.add(async () => {
+                try {
+                    if (SpriteService.listImages(folderPath).length === 0) {
+                        console.log(`Upfly: Sprite folder ${folderPath} is empty, skipping rebuild`);
+                        return;
+                    }
+                    const result = await SpriteService.generate(folderPath, sprite);
+                    vscode.window.setStatusBarMessage(
+                        `Upfly: Rebuilt ${path.basename(result.atlasPath)} (${result.count} sprites)`, 5000
+                    );
+                } catch (error: any) {
+                    console.error('Upfly: Sprite rebuild failed', error);
+                    vscode.window.showErrorMessage(`Upfly: Sprite sheet for ${path.basename(folderPath)} failed: ${error.message}`);
+                }
+            });
+        }, WatcherService.SPRITE_REBUILD_DELAY));
     }
 
     /**
@@ -139,7 +227,7 @@ export class WatcherService {
         return finalGlobs;
     }
 
-    private onFileEvent(uri: vscode.Uri) {
+    private onFileEvent(uri: vscode.Uri, isChange: boolean = false) {
         let filePath = uri.fsPath;
 
         try {
@@ -151,15 +239,21 @@ export class WatcherService {
             return;
         }
 
+        // `exclude` globs and .upflyignore can't be expressed in the watcher glob, so filter here
+        if (!ConfigService.getInstance().isWatched(filePath)) {
+            console.log(`Upfly: Ignoring excluded file: ${filePath}`);
+            return;
+        }
+
         if (this.processingFiles.has(filePath)) {
             return;
         }
 
         this.processingFiles.add(filePath);
-        this.waitForFileStability(filePath);
+        this.waitForFileStability(filePath, isChange);
     }
 
-    private async waitForFileStability(filePath: string, lastSize: number = -1, attempts: number = 0) {
+    private async waitForFileStability(filePath: string, isChange: boolean, lastSize: number = -1, attempts: number = 0) {
         const MAX_ATTEMPTS = 50;
         const POLLING_INTERVAL = 100;
 
@@ -175,10 +269,10 @@ export class WatcherService {
 
                 if (currentSize > 0 && currentSize === lastSize) {
                     this.processingFiles.delete(filePath);
-                    this.triggerProcessing(filePath);
+                    this.triggerProcessing(filePath, isChange);
                 } else {
                     if (attempts < MAX_ATTEMPTS) {
-                        this.waitForFileStability(filePath, currentSize, attempts + 1);
+                        this.waitForFileStability(filePath, isChange, currentSize, attempts + 1);
                     } else {
                         console.log(`Upfly: File ${filePath} took too long to settle. Giving up.`);
                         this.processingFiles.delete(filePath);
@@ -188,7 +282,7 @@ export class WatcherService {
             } catch (error: any) {
                 if (error.code === 'EBUSY') {
                      if (attempts < MAX_ATTEMPTS) {
-                        this.waitForFileStability(filePath, lastSize, attempts + 1);
+                        this.waitForFileStability(filePath, isChange, lastSize, attempts + 1);
                      } else {
                         this.processingFiles.delete(filePath);
                      }
@@ -200,13 +294,19 @@ export class WatcherService {
         }, POLLING_INTERVAL);
     }
 
-    private async triggerProcessing(filePath: string) {
+    private async triggerProcessing(filePath: string, isChange: boolean = false) {
         const config = ConfigService.getInstance();
 
+        // Sprite sources stay untouched - the sprite watcher rebuilds their atlas instead
+        if (config.getSpriteForFile(filePath)) {
+            console.log(`Upfly: ${filePath} is in a sprite folder, skipping conversion.`);
+            return;
+        }
+
         // Skip processing if config is invalid - show error popup (JIT)
-        if (!config.isConfigValid) {
+        if (!config.isConfigValid(filePath)) {
             console.log('Upfly: Config is invalid, skipping auto-conversion. File will be pasted normally.');
-            config.showConfigErrors();
+            config.showConfigErrors(filePath);
             return;
         }
 
@@ -216,7 +316,7 @@ export class WatcherService {
         
         // Neither? Shouldn't happen with proper watcher setup, but just in case
         if (!isCloudTarget && !shouldConvert) {
-            console.log('Upfly: File not in any watch target, skipping.');
+            console.log('Upfly: File not in any watch target (or excluded), skipping.');
             return;
         }
 
@@ -228,25 +328,46 @@ export class WatcherService {
                     return;
                 }
 
+                // reprocessOnChange: a change event whose bytes we already know (a no-op save, or our own write) is ignored
+                let sourceHash: string | undefined;
+                if (config.get<boolean>('reprocessOnChange', filePath)) {
+                    sourceHash = await ProcessingCache.hashFile(filePath);
+                    if (isChange && this.isUnchanged(filePath, sourceHash, isCloudTarget)) {
+                        console.log(`Upfly: ${filePath} content is unchanged, skipping.`);
+                        return;
+                    }
+                    ProcessingCache.rememberContent(filePath, sourceHash);
+                }
+
+                // Optional: the new image is hashed and compared with the in-memory index before conversion
+                // moves it or adds its outputs. The warning waits until the conversion is done.
+                let duplicates: HashedImage[] = [];
+                if (!isChange && config.get<boolean>('duplicateCheck', filePath)) {
+                    DuplicateService.buildIndex();
+                    const image = await DuplicateService.hashFile(filePath);
+                    if (image) duplicates = DuplicateService.findMatches(image);
+                }
+
                 if (isCloudTarget && shouldConvert) {
                     // BOTH: Convert then upload
-                    const { format, quality } = config.getOptionsForPath(filePath);
-                    await this.processCloudUpload(filePath, format, quality, config);
+                    const options = config.getOptionsForPath(filePath);
+                    if (!(await ConverterService.checkFileSize(filePath, options))) return;
+                    await this.processCloudUpload(filePath, options, config, sourceHash, isChange);
                 } else if (isCloudTarget && !shouldConvert) {
                     // CLOUD ONLY: Upload original without conversion
-                    await this.processCloudUploadRaw(filePath, config);
+                    const options = config.getRawUploadOptions(filePath);
+                    if (!(await ConverterService.checkFileSize(filePath, options))) return;
+                    await this.processCloudUploadRaw(filePath, options, config, sourceHash, isChange);
                 } else {
-                    // LOCAL ONLY: Normal conversion (unchanged behavior)
-                    const { format, quality } = config.getOptionsForPath(filePath);
+                    // LOCAL ONLY: Normal conversion. A changed source replaces its earlier outputs.
+                    const options = config.getOptionsForPath(filePath);
                     await ConverterService.convertFile(filePath, {
-                        format,
-                        quality,
-                        storageMode: config.get('storageMode'),
-                        outputDirectory: config.get('outputDirectory'),
-                        originalDirectory: config.get('originalDirectory'),
-                        inPlaceKeepOriginal: config.get('inPlaceKeepOriginal')
+                        ...options,
+                        ...config.getStorageOptions(filePath),
+                        collisionPolicy: isChange ? 'overwrite' : options.collisionPolicy
                     });
                 }
+                this.warnIfDuplicate(filePath, duplicates);
 
             } catch (err) {
                 console.error('Error processing file:', err);
@@ -254,29 +375,88 @@ export class WatcherService {
         });
     }
 
+    /**
+     * Whether a changed file still has content we processed, wrote or uploaded before
+     */
+    private isUnchanged(filePath: string, sourceHash: string, isCloudTarget: boolean): boolean {
+        if (ProcessingCache.isKnownContent(filePath, sourceHash)) return true;
+        // After a restart (or once evicted) only uploads.json / conversions.json remember what was processed
+        return isCloudTarget
+            ? ResponseService.findUploads(filePath).some(r => r.sourceHash === sourceHash)
+            : ConversionLogService.findLatest(filePath)?.sourceHash === sourceHash;
+    }
+
+    /**
+     * Object to overwrite when re-uploading a changed source: the earlier upload with the same format and width
+     */
+    private findReplaceId(previous: UploadRecord[], provider: string, format: string, width?: number): string | undefined {
+        return previous.find(r =>
+            r.provider === provider && r.convertedFormat === format && r.variantWidth === width
+        )?.cloudPublicId;
+    }
+
+    /**
+     * Warn when a new image matched existing ones (those deleted since are dropped)
+     */
+    private warnIfDuplicate(filePath: string, duplicates: HashedImage[]) {
+        try {
+            const matches = duplicates.filter(match => fs.existsSync(match.path));
+            duplicates.filter(match => !matches.includes(match)).forEach(match => DuplicateService.forget(match.path));
+            if (matches.length === 0) return;
+
+            const workspaceRoot = WorkspaceService.getRoot(matches[0].path) || '';
+            const existing = path.relative(workspaceRoot, matches[0].path).replace(/\\/g, '/');
+            const more = matches.length > 1 ? ` and ${matches.length - 1} more` : '';
+            vscode.window.showWarningMessage(
+                `Upfly: ${path.basename(filePath)} looks like a duplicate of ${existing}${more}.`,
+                'Open Existing',
+                'Find All Duplicates'
+            ).then(choice => {
+                if (choice === 'Open Existing') {
+                    vscode.commands.executeCommand('vscode.open', vscode.Uri.file(matches[0].path));
+                } else if (choice === 'Find All Duplicates') {
+                    vscode.commands.executeCommand('upfly.findDuplicates');
+                }
+            });
+        } catch (error) {
+            console.error('Upfly: Duplicate check failed', error);
+        }
+    }
+
     /**
      * CLOUD MODE: Convert in memory and upload directly to cloud
+     * Responsive variants (if configured) are uploaded alongside the full-size image
      */
     private async processCloudUpload(
         filePath: string,
-        format: 'webp' | 'png' | 'jpeg' | 'avif',
-        quality: number,
-        config: ConfigService
+        options: ImageOptions,
+        config: ConfigService,
+        sourceHash?: string,
+        isChange: boolean = false
     ): Promise<void> {
-        const cloudConfig = config.getCloudConfig();
+        const cloudConfig = config.getCloudConfig(filePath);
         if (!cloudConfig) {
             console.log('Upfly: Cloud config not available, skipping upload');
             return;
         }
 
-        // Convert to buffer (no disk write)
-        const { buffer } = await ConverterService.convertToBuffer(filePath, format, quality);
+        // Convert to buffers (no disk write)
+        const { format, outputs, quality, ssim } = await ConverterService.convertToBuffer(filePath, options);
         const originalFilename = path.basename(filePath);
+        if (outputs.some(o => o.downscaledTo !== undefined)) {
+            this.notifyDownscaled(originalFilename, options);
+        }
 
-        // Calculate folder relative to workspace root
+        // Intrinsic size + blur placeholder per output, recorded in uploads.json
+        const placeholders = await PlaceholderService.generateAll(outputs).catch(e => {
+            console.error('Upfly: Failed to generate placeholders', e);
+            return [];
+        });
+
+        // Calculate folder relative to the file's workspace folder
         let relativeFolder: string | undefined;
-        if (vscode.workspace.workspaceFolders) {
-            const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath;
+        const workspaceRoot = WorkspaceService.getRoot(filePath);
+        if (workspaceRoot) {
             const relativePath = path.relative(workspaceRoot, filePath);
             relativeFolder = path.dirname(relativePath).replace(/\\/g, '/');
             if (relativeFolder === '.') relativeFolder = undefined;
@@ -285,56 +465,99 @@ export class WatcherService {
         // Notify user (debounced)
         this.notifyUploadStart();
 
+        // Only delete the original once every output of the set is uploaded
+        let pendingUploads = outputs.length;
+        const originalFormat = path.extname(filePath).slice(1).toLowerCase();
+
+        // Key names from fileNameTemplate (default: the source name with the output extension)
+        const template = options.fileNameTemplate;
+        const cloudFilenames = template
+            ? await Promise.all(outputs.map(output =>
+                this.getCloudFilename(template, filePath, output, output.original ? originalFormat : format)))
+            : [];
+
+        // A changed source overwrites what it uploaded before instead of adding new objects.
+        // {hash} keys change with the content, so those objects are uploaded anew and the old ones deleted.
+        const previous = isChange ? ResponseService.findUploads(filePath) : [];
+        const keepsKey = !template || !FileNameService.usesHash(template);
+
         // Queue for cloud upload
-        CloudService.queueUpload({
-            buffer,
-            localPath: filePath,
-            convertedFormat: format,
-            originalFilename,
-            folder: relativeFolder,
-            cloudConfig: {
-                provider: cloudConfig.provider,
-                config: cloudConfig.config,
-                deleteLocalAfterUpload: cloudConfig.deleteLocalAfterUpload
-            },
-            onComplete: () => {
-                // Delete original after successful upload if configured
-                if (cloudConfig.deleteLocalAfterUpload) {
-                    try {
-                        fs.unlinkSync(filePath);
-                        console.log(`Upfly: Deleted original after upload: ${filePath}`);
-                    } catch (e) {
-                        console.error('Upfly: Failed to delete original', e);
+        outputs.forEach((output, i) => {
+            const convertedFormat = output.original ? originalFormat : format;
+            const previousId = this.findReplaceId(previous, cloudConfig.provider, convertedFormat, output.width);
+            CloudService.queueUpload({
+                buffer: output.buffer,
+                localPath: filePath,
+                // The size guard may hand back the source when converting wouldn't shrink it
+                convertedFormat,
+                originalFilename: output.width
+                    ? ConverterService.getVariantFileName(originalFilename, output.width)
+                    : originalFilename,
+                variantWidth: output.width,
+                quality,
+                ssim,
+                placeholder: placeholders[i],
+                cloudFilename: cloudFilenames[i],
+                collisionPolicy: options.collisionPolicy,
+                replaceId: keepsKey ? previousId : undefined,
+                supersedesId: keepsKey ? undefined : previousId,
+                sourceHash,
+                folder: relativeFolder,
+                cloudConfig: {
+                    provider: cloudConfig.provider,
+                    config: cloudConfig.config,
+                    deleteLocalAfterUpload: cloudConfig.deleteLocalAfterUpload
+                },
+                onComplete: () => {
+                    // Delete original after successful upload if configured
+                    if (--pendingUploads === 0 && cloudConfig.deleteLocalAfterUpload) {
+                        try {
+                            fs.unlinkSync(filePath);
+                            console.log(`Upfly: Deleted original after upload: ${filePath}`);
+                        } catch (e) {
+                            console.error('Upfly: Failed to delete original', e);
+                        }
                     }
                 }
-            }
+            });
         });
 
         console.log(`Upfly Cloud: Queued ${originalFilename} for upload`);
     }
 
     /**
-     * CLOUD-ONLY MODE: Upload original file without conversion
+     * CLOUD-ONLY MODE: Upload original file without conversion.
+     * The exception is a source over maxFileSize with 'downscale-to-fit', which is re-encoded smaller.
      */
     private async processCloudUploadRaw(
         filePath: string,
-        config: ConfigService
+        options: ImageOptions,
+        config: ConfigService,
+        sourceHash?: string,
+        isChange: boolean = false
     ): Promise<void> {
-        const cloudConfig = config.getCloudConfig();
+        const cloudConfig = config.getCloudConfig(filePath);
         if (!cloudConfig) {
             console.log('Upfly: Cloud config not available, skipping upload');
             return;
         }
 
         // Read original file as buffer (no conversion)
-        const buffer = fs.readFileSync(filePath);
+        let buffer = await ConverterService.readFile(filePath);
         const originalFilename = path.basename(filePath);
-        const ext = path.extname(filePath).slice(1).toLowerCase(); // e.g. 'png'
+        let ext = path.extname(filePath).slice(1).toLowerCase(); // e.g. 'png'
 
-        // Calculate folder relative to workspace root
+        if (options.oversizePolicy === 'downscale-to-fit' && options.maxFileSize && buffer.length > options.maxFileSize) {
+            const { format, outputs } = await ConverterService.convertToBuffer(filePath, options);
+            buffer = outputs[0].buffer;
+            ext = format;
+            this.notifyDownscaled(originalFilename, options);
+        }
+
+        // Calculate folder relative to the file's workspace folder
         let relativeFolder: string | undefined;
-        if (vscode.workspace.workspaceFolders) {
-            const workspaceRoot = vscode.workspace.workspaceFolders[0].uri.fsPath;
+        const workspaceRoot = WorkspaceService.getRoot(filePath);
+        if (workspaceRoot) {
             const relativePath = path.relative(workspaceRoot, filePath);
             relativeFolder = path.dirname(relativePath).replace(/\\/g, '/');
             if (relativeFolder === '.') relativeFolder = undefined;
@@ -343,12 +566,27 @@ export class WatcherService {
         // Notify user (debounced)
         this.notifyUploadStart();
 
+        const cloudFilename = options.fileNameTemplate
+            ? await this.getCloudFilename(options.fileNameTemplate, filePath, { buffer, size: buffer.length }, ext)
+            : undefined;
+
+        // A changed source overwrites its earlier upload, unless a {hash} key gives the new content a new object
+        const previousId = isChange
+            ? this.findReplaceId(ResponseService.findUploads(filePath), cloudConfig.provider, ext)
+            : undefined;
+        const keepsKey = !options.fileNameTemplate || !FileNameService.usesHash(options.fileNameTemplate);
+
         // Queue for cloud upload
         CloudService.queueUpload({
             buffer,
             localPath: filePath,
             convertedFormat: ext, // Original format
             originalFilename,
+            cloudFilename,
+            collisionPolicy: options.collisionPolicy,
+            replaceId: keepsKey ? previousId : undefined,
+            supersedesId: keepsKey ? undefined : previousId,
+            sourceHash,
             folder: relativeFolder,
             cloudConfig: {
                 provider: cloudConfig.provider,
@@ -370,6 +608,28 @@ export class WatcherService {
         console.log(`Upfly Cloud: Queued ${originalFilename} for RAW upload (no conversion)`);
     }
 
+    /**
+     * Cloud key name for one output. Variants get a -640w suffix unless the template has {width}.
+     */
+    private async getCloudFilename(template: string, filePath: string, output: BufferOutput, format: string): Promise<string> {
+        const fileName = await FileNameService.render(template, {
+            name: path.parse(filePath).name,
+            format,
+            buffer: output.buffer,
+            width: output.width
+        });
+        return output.width && !FileNameService.usesWidth(template)
+            ? ConverterService.getVariantFileName(fileName, output.width)
+            : fileName;
+    }
+
+    private notifyDownscaled(fileName: string, options: ImageOptions) {
+        vscode.window.showInformationMessage(
+            `Upfly: ${fileName} was over maxFileSize (${ConverterService.formatBytes(options.maxFileSize!)}), ` +
+            `uploading a downscaled copy.`
+        );
+    }
+
     private notifyUploadStart() {
         if (WatcherService.uploadDebounceTimer) {
             clearTimeout(WatcherService.uploadDebounceTimer);
@@ -380,8 +640,10 @@ export class WatcherService {
     }
 
     public dispose() {
-        this.watchers.forEach(w => w.dispose());
-        this.watchers = [];
+        this.watchers.forEach(watchers => watchers.forEach(w => w.dispose()));
+        this.watchers.clear();
+        this.spriteTimers.forEach(timer => clearTimeout(timer));
+        this.spriteTimers.clear();
         if (WatcherService.uploadDebounceTimer) {
             clearTimeout(WatcherService.uploadDebounceTimer);
         }
@@ -0,0 +1,96 @@
+/**
+ * WatermarkService - Builds logo/text overlays sized and positioned for one output
+ */
+
+import * as fs from 'fs';
+import sharp from 'sharp';
+import { WatermarkOptions } from './ConfigService';
+
+export class WatermarkService {
+    private static readonly DEFAULT_OPACITY = 0.5;
+    private static readonly DEFAULT_SCALE = 0.2;
+    private static readonly DEFAULT_MARGIN = 0.02;
+    // Text is rendered large and scaled down, so it stays crisp on wide outputs
+    private static readonly TEXT_DPI = 600;
+
+    /**
+     * Load the watermark as a PNG with alpha (the logo file, or the rendered text).
+     * `image` is an absolute path here - ConfigService resolves it against the workspace.
+     */
+    static async loadSource(watermark: WatermarkOptions): Promise<Buffer> {
+        if (watermark.image) {
+            if (!fs.existsSync(watermark.image)) {
+                throw new Error(`Watermark image not found: ${watermark.image}`);
+            }
+            return sharp(await fs.promises.readFile(watermark.image)).ensureAlpha().png().toBuffer();
+        }
+
+        const color = this.escapeMarkup(watermark.color ?? '#ffffff');
+        return sharp({
+            text: {
+                text: `<span foreground="${color}">${this.escapeMarkup(watermark.text ?? '')}</span>`,
+                font: watermark.font ?? 'sans bold',
+                dpi: this.TEXT_DPI,
+                rgba: true
+            }
+        }).png().toBuffer();
+    }
+
+    /**
+     * Overlays for an output of the given size. Animations (stacked pages) get one overlay per frame.
+     */
+    static async createOverlays(
+        source: Buffer,
+        watermark: WatermarkOptions,
+        width: number,
+        pageHeight: number,
+        pages: number = 1
+    ): Promise<sharp.OverlayOptions[]> {
+        const margin = Math.round(width * (watermark.margin ?? this.DEFAULT_MARGIN));
+        const boxWidth = Math.max(1, Math.min(Math.round(width * (watermark.scale ?? this.DEFAULT_SCALE)), width - 2 * margin));
+        const boxHeight = Math.max(1, pageHeight - 2 * margin);
+
+        const { data, info } = await sharp(source)
+            .resize(boxWidth, boxHeight, { fit: 'inside' })
+            .ensureAlpha()
+            .raw()
+            .toBuffer({ resolveWithObject: true });
+
+        // Apply opacity to the alpha channel
+        const opacity = watermark.opacity ?? this.DEFAULT_OPACITY;
+        for (let i = 3; i < data.length; i += 4) {
+            data[i] = Math.round(data[i] * opacity);
+        }
+        const input = await sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } }).png().toBuffer();
+
+        const { left, top } = this.getOffset(watermark, width, pageHeight, info.width, info.height, margin);
+        return Array.from({ length: pages }, (_, page) => ({ input, left, top: top + page * pageHeight }));
+    }
+
+    private static getOffset(
+        watermark: WatermarkOptions,
+        width: number,
+        height: number,
+        overlayWidth: number,
+        overlayHeight: number,
+        margin: number
+    ): { left: number; top: number } {
+        const position = watermark.position ?? 'bottom-right';
+        const start = margin;
+        const horizontalEnd = Math.max(0, width - overlayWidth - margin);
+        const verticalEnd = Math.max(0, height - overlayHeight - margin);
+
+        const left = position.endsWith('left') ? start
+            : position.endsWith('right') ? horizontalEnd
+            : Math.round((width - overlayWidth) / 2);
+        const top = position.startsWith('top') ? start
+            : position.startsWith('bottom') ? verticalEnd
+            : Math.round((height - overlayHeight) / 2);
+
+        return { left, top };
+    }
+
+    private static escapeMarkup(value: string): string {
+        return value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+    }
+}
@@ -0,0 +1,42 @@
+/**
+ * WorkspaceService - Which workspace folder a file belongs to
+ *
+ * Every root of a multi-root workspace has its own upfly.config.json, .upflyignore, .env and .upfly/ state.
+ * Paths outside all folders (and calls without a path) resolve to the first folder.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class WorkspaceService {
+    static getFolders(): readonly vscode.WorkspaceFolder[] {
+        return vscode.workspace.workspaceFolders ?? [];
+    }
+
+    /**
+     * Workspace folder owning a file or folder path
+     */
+    static getFolder(filePath?: string): vscode.WorkspaceFolder | undefined {
+        const folder = filePath ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath)) : undefined;
+        return folder ?? vscode.workspace.workspaceFolders?.[0];
+    }
+
+    static getRoot(filePath?: string): string | undefined {
+        return this.getFolder(filePath)?.uri.fsPath;
+    }
+
+    /**
+     * The .upfly state folder of the root owning `filePath` (created if missing)
+     */
+    static getUpflyDir(filePath?: string): string {
+        const workspaceRoot = this.getRoot(filePath);
+        if (!workspaceRoot) throw new Error('No workspace folder');
+
+        const upflyDir = path.join(workspaceRoot, '.upfly');
+        if (!fs.existsSync(upflyDir)) {
+            fs.mkdirSync(upflyDir, { recursive: true });
+        }
+        return upflyDir;
+    }
+}
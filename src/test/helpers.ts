@@ -0,0 +1,95 @@
+/**
+ * Shared fixtures for the test suites: a scratch folder inside the test workspace and generated images
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+
+export interface ImageSpec {
+    width: number;
+    height: number;
+    format?: 'png' | 'jpeg' | 'webp' | 'gif';
+    quality?: number;
+    // 'noise' compresses badly, 'gradient' looks like a photo, 'flat' is a single color
+    pattern?: 'noise' | 'gradient' | 'flat';
+    seed?: number;
+}
+
+export function getWorkspaceRoot(): string {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) throw new Error('The tests need a workspace folder (see runTest.ts)');
+    return folder.uri.fsPath;
+}
+
+/**
+ * A fresh, empty folder inside the workspace. Outside the default `public` watch target,
+ * so the extension under test leaves it alone.
+ */
+export function createScratchDir(name: string): string {
+    const dir = path.join(getWorkspaceRoot(), 'scratch', `${name}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`);
+    fs.mkdirSync(dir, { recursive: true });
+    return dir;
+}
+
+export function removeScratchDir(dir: string): void {
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+/**
+ * Raw RGB pixels, deterministic for a given seed
+ */
+export function createPixels(spec: ImageSpec): Buffer {
+    const { width, height, pattern = 'gradient', seed = 1 } = spec;
+    const pixels = Buffer.alloc(width * height * 3);
+    let state = seed * 2654435761 >>> 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 3;
+            if (pattern === 'noise') {
+                for (let c = 0; c < 3; c++) {
+                    state = (state * 1664525 + 1013904223) >>> 0;
+                    pixels[i + c] = state >>> 24;
+                }
+            } else if (pattern === 'flat') {
+                pixels.fill((seed * 53) % 256, i, i + 3);
+            } else {
+                pixels[i] = Math.round(255 * x / width);
+                pixels[i + 1] = Math.round(255 * y / height);
+                pixels[i + 2] = (x * seed + y * 3) % 256;
+            }
+        }
+    }
+    return pixels;
+}
+
+export async function createImage(spec: ImageSpec): Promise<Buffer> {
+    const { width, height, format = 'png', quality = 90 } = spec;
+    return sharp(createPixels(spec), { raw: { width, height, channels: 3 } })
+        .toFormat(format, { quality })
+        .toBuffer();
+}
+
+export async function writeImage(filePath: string, spec: ImageSpec): Promise<Buffer> {
+    const buffer = await createImage(spec);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, buffer);
+    return buffer;
+}
+
+/**
+ * An image carrying the metadata the 'strip' policy has to remove: camera EXIF with a GPS block,
+ * a non-default orientation and an sRGB ICC profile
+ */
+export async function createImageWithExif(spec: ImageSpec, orientation = 6): Promise<Buffer> {
+    const { width, height, format = 'jpeg', quality = 90 } = spec;
+    return sharp(createPixels(spec), { raw: { width, height, channels: 3 } })
+        .withMetadata({ orientation })
+        .withExif({
+            IFD0: { Copyright: 'ACME', ImageDescription: 'x'.repeat(2000) },
+            IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '52/1 31/1 0/1' }
+        })
+        .toFormat(format, { quality })
+        .toBuffer();
+}
@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+async function main() {
+    // Tests write images, configs and history into a throwaway workspace folder
+    const workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'upfly-test-'));
+    try {
+        // The folder containing the extension manifest (package.json)
+        const extensionDevelopmentPath = path.resolve(__dirname, '../../');
+        // The suite runner (out/test/suite/index.js)
+        const extensionTestsPath = path.resolve(__dirname, './suite/index');
+
+        await runTests({
+            extensionDevelopmentPath,
+            extensionTestsPath,
+            launchArgs: [workspacePath, '--disable-extensions']
+        });
+    } catch (error) {
+        console.error('Failed to run tests', error);
+        process.exitCode = 1;
+    } finally {
+        fs.rmSync(workspacePath, { recursive: true, force: true });
+    }
+}
+
+main();
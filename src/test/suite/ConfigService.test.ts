@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigService } from '../../services/ConfigService';
+import { getWorkspaceRoot } from '../helpers';
+
+suite('ConfigService', () => {
+    const config = ConfigService.getInstance();
+    let root: string;
+    let configPath: string;
+
+    // Targets point at folders that don't exist, so the running extension has nothing to convert
+    const validate = (content: object): string[] => {
+        fs.writeFileSync(configPath, JSON.stringify(content));
+        config.validateConfig(root);
+        return config.getValidationErrors(path.join(root, 'assets', 'hero.png'));
+    };
+
+    suiteSetup(() => {
+        root = getWorkspaceRoot();
+        configPath = path.join(root, 'upfly.config.json');
+    });
+
+    teardown(() => {
+        fs.rmSync(configPath, { force: true });
+        config.validateConfig(root);
+    });
+
+    test('accepts a complete, valid config', () => {
+        const errors = validate({
+            watchTargets: [
+                { path: 'assets', format: 'avif', quality: 'auto', widths: [320, 640], animatedAvif: 'first-frame' },
+                { path: 'assets/hero', preset: 'hero', fileNameTemplate: '{slug}.{hash:8}', collisionPolicy: 'fail' }
+            ],
+            presets: { hero: { format: 'webp', quality: 70, maxWidth: 1920, maxHeight: 1080, fit: 'cover' } },
+            sizePolicy: 'keep-smaller',
+            minSavings: 10,
+            storageMode: 'separate-output',
+            outputDirectory: 'dist/images'
+        });
+        assert.deepStrictEqual(errors, []);
+    });
+
+    test('treats a missing config file as valid', () => {
+        fs.rmSync(configPath, { force: true });
+        assert.strictEqual(config.validateConfig(root), true);
+        assert.deepStrictEqual(config.getValidationErrors(), []);
+    });
+
+    test('reports invalid target settings with their position', () => {
+        const errors = validate({
+            watchTargets: [
+                { path: 'assets', format: 'gif' },
+                { path: 'assets/a', format: 'webp', quality: 0, animatedAvif: 'gif', fileNameTemplate: '{title}' },
+                { format: 'webp', sizePolicy: 'smaller', minSavings: 100 }
+            ]
+        });
+        assert.deepStrictEqual(errors, [
+            'watchTargets[0]: "format" must be one of: webp, png, jpeg, avif',
+            'watchTargets[1]: "quality" must be 1-100 or "auto".',
+            'watchTargets[1]: "animatedAvif" must be "webp" or "first-frame".',
+            'watchTargets[1]: "fileNameTemplate" has an unknown token {title} (use {name}, {slug}, {width}, {format}, {hash}, {date}).',
+            'watchTargets[2]: "path" is required and must be a string.',
+            'watchTargets[2]: "sizePolicy" must be one of: keep-original, keep-smaller, always-convert',
+            'watchTargets[2]: "minSavings" must be a percentage from 0 to 99.'
+        ]);
+    });
+
+    test('checks presets and the targets that use them', () => {
+        const errors = validate({
+            watchTargets: [{ path: 'assets', preset: 'missing' }, { path: 'assets/b', preset: 'broken' }],
+            presets: { broken: { path: 'x', format: 'bmp', fit: 'cover', maxWidth: 100 } }
+        });
+        assert.ok(errors.includes('presets.broken: "path" and "preset" belong on the watch target, not the preset.'));
+        assert.ok(errors.includes('presets.broken: "format" must be one of: webp, png, jpeg, avif'));
+        assert.ok(errors.includes('presets.broken: "fit" "cover" requires both "maxWidth" and "maxHeight".'));
+        assert.ok(errors.includes('watchTargets[0]: "preset" "missing" is not defined in "presets".'));
+        // Without a preset (or a format of its own) the first target has no format
+        assert.ok(errors.includes('watchTargets[0]: "format" must be one of: webp, png, jpeg, avif'));
+    });
+
+    test('needs the directory a storage mode writes to', () => {
+        assert.deepStrictEqual(validate({ watchTargets: [{ path: 'assets', format: 'webp' }], storageMode: 'separate-output' }), [
+            '"storageMode" is "separate-output" but "outputDirectory" is not set.'
+        ]);
+        // A target may take the directory from the global settings
+        assert.deepStrictEqual(validate({
+            watchTargets: [{ path: 'assets', format: 'webp', storageMode: 'separate-original' }],
+            originalDirectory: 'originals'
+        }), []);
+    });
+
+    test('checks global settings', () => {
+        const errors = validate({
+            watchTargets: [],
+            historyRetentionDays: -1,
+            duplicateThreshold: 40,
+            workerThreads: 1.5,
+            sprites: [{ path: 'icons', output: 'icons/sheet', format: 'gif' }]
+        });
+        assert.deepStrictEqual(errors, [
+            '"watchTargets" cannot be empty (unless cloudUpload.watchTargets is set).',
+            '"historyRetentionDays" must be a whole number of days (0 or more).',
+            '"duplicateThreshold" must be an integer from 0 to 32 (differing bits of a 64-bit hash).',
+            '"workerThreads" must be a whole number (0 = one per CPU core).',
+            'sprites[0]: "output" must be outside the sprite folder, or the atlas would be packed into itself.',
+            'sprites[0]: "format" must be "png" or "webp".'
+        ]);
+    });
+
+    test('resolves a preset on its own for manual conversions', () => {
+        fs.writeFileSync(configPath, JSON.stringify({
+            watchTargets: [{ path: 'assets', format: 'webp' }],
+            presets: { thumb: { format: 'avif', quality: 50, maxWidth: 320 } }
+        }));
+        assert.deepStrictEqual(config.getPresetNames(root), ['thumb']);
+        const options = config.getPresetOptions('thumb', path.join(root, 'assets', 'a.png'));
+        assert.strictEqual(options?.format, 'avif');
+        assert.strictEqual(options?.quality, 50);
+        assert.strictEqual(options?.maxWidth, 320);
+        assert.strictEqual(config.getPresetOptions('missing', root), undefined);
+    });
+});
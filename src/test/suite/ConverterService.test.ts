@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConverterService, ConversionOptions } from '../../services/ConverterService';
+import { createScratchDir, removeScratchDir, writeImage } from '../helpers';
+
+suite('ConverterService', () => {
+    let dir: string;
+
+    setup(() => {
+        dir = createScratchDir('converter');
+    });
+
+    teardown(() => {
+        removeScratchDir(dir);
+    });
+
+    // A heavily compressed JPEG only grows when re-encoded at quality 100
+    const writeIncompressible = (filePath: string) =>
+        writeImage(filePath, { width: 96, height: 96, pattern: 'noise', format: 'jpeg', quality: 20 });
+
+    suite('size guard', () => {
+        const options: ConversionOptions = { format: 'webp', quality: 100, storageMode: 'in-place', quiet: true };
+
+        test('in-place keeps the source untouched', async () => {
+            const source = path.join(dir, 'photo.jpg');
+            const bytes = await writeIncompressible(source);
+
+            assert.strictEqual(await ConverterService.convertFile(source, options), false);
+            assert.ok(fs.readFileSync(source).equals(bytes));
+            assert.ok(!fs.existsSync(path.join(dir, 'photo.webp')));
+        });
+
+        test('separate-output copies the source to the output folder', async () => {
+            const source = path.join(dir, 'photo.jpg');
+            const bytes = await writeIncompressible(source);
+            const outputDirectory = path.join(dir, 'out');
+
+            const changed = await ConverterService.convertFile(source, { ...options, storageMode: 'separate-output', outputDirectory });
+            assert.strictEqual(changed, true);
+            assert.ok(fs.readFileSync(path.join(outputDirectory, 'photo.jpg')).equals(bytes));
+            assert.ok(!fs.existsSync(path.join(outputDirectory, 'photo.webp')));
+            assert.ok(fs.existsSync(source));
+        });
+
+        test("separate-output copies nothing with 'keep-original'", async () => {
+            const source = path.join(dir, 'photo.jpg');
+            await writeIncompressible(source);
+            const outputDirectory = path.join(dir, 'out');
+
+            const changed = await ConverterService.convertFile(source, {
+                ...options, storageMode: 'separate-output', outputDirectory, sizePolicy: 'keep-original'
+            });
+            assert.strictEqual(changed, false);
+            assert.deepStrictEqual(fs.readdirSync(outputDirectory), []);
+        });
+
+        test('variants are still written when the full-size output is dropped', async () => {
+            const source = path.join(dir, 'photo.jpg');
+            const bytes = await writeIncompressible(source);
+
+            assert.strictEqual(await ConverterService.convertFile(source, { ...options, widths: [48] }), true);
+            assert.ok(fs.readFileSync(source).equals(bytes));
+            assert.ok(fs.existsSync(path.join(dir, 'photo-48w.webp')));
+            assert.ok(!fs.existsSync(path.join(dir, 'photo.webp')));
+        });
+    });
+
+    test('in-place conversion replaces the source', async () => {
+        const source = path.join(dir, 'hero.png');
+        await writeImage(source, { width: 96, height: 96 });
+
+        const changed = await ConverterService.convertFile(source, { format: 'webp', quality: 80, storageMode: 'in-place', quiet: true });
+        assert.strictEqual(changed, true);
+        assert.ok(fs.existsSync(path.join(dir, 'hero.webp')));
+        assert.ok(!fs.existsSync(source));
+    });
+});
@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { DuplicateService, HashedImage } from '../../services/DuplicateService';
+import { createImage, createScratchDir, removeScratchDir, writeImage } from '../helpers';
+
+suite('DuplicateService', () => {
+    const photo = { width: 120, height: 90, seed: 3 };
+
+    suite('computeHash', () => {
+        test('matches re-encoded and resized copies', async () => {
+            const png = await createImage(photo);
+            const hash = await DuplicateService.computeHash(png);
+            const jpeg = await DuplicateService.computeHash(await createImage({ ...photo, format: 'jpeg', quality: 60 }));
+            const small = await DuplicateService.computeHash(await sharp(png).resize(60).webp().toBuffer());
+
+            assert.match(hash, /^[0-9a-f]{16}$/);
+            assert.ok(DuplicateService.distance(hash, jpeg) <= 4, `jpeg copy is ${DuplicateService.distance(hash, jpeg)} bits away`);
+            assert.ok(DuplicateService.distance(hash, small) <= 4, `resized copy is ${DuplicateService.distance(hash, small)} bits away`);
+        });
+
+        test('tells different images apart', async () => {
+            const a = await DuplicateService.computeHash(await createImage(photo));
+            const b = await DuplicateService.computeHash(await sharp(await createImage(photo)).flop().toBuffer());
+            assert.ok(DuplicateService.distance(a, b) > 16, `mirrored image is only ${DuplicateService.distance(a, b)} bits away`);
+        });
+    });
+
+    test('distance counts differing bits', () => {
+        assert.strictEqual(DuplicateService.distance('0'.repeat(16), '0'.repeat(16)), 0);
+        assert.strictEqual(DuplicateService.distance('0'.repeat(16), 'f'.repeat(16)), 64);
+        assert.strictEqual(DuplicateService.distance('0000000000000001', '8000000000000000'), 2);
+    });
+
+    suite('group', () => {
+        const image = (name: string, hash: string, width: number, size = 1000): HashedImage =>
+            ({ path: `/images/${name}`, hash, size, width, height: width });
+
+        test('groups transitively and puts the largest image first', () => {
+            // a-b and b-c are 4 bits apart, a-c 8: one group at threshold 4
+            const groups = DuplicateService.group([
+                image('a.png', '000000000000000f', 100),
+                image('b.png', '00000000000000ff', 400),
+                image('c.png', '0000000000000fff', 200),
+                image('other.png', 'ffffffffffff0000', 400)
+            ], 4);
+
+            assert.strictEqual(groups.length, 1);
+            assert.deepStrictEqual(groups[0].files.map(f => path.basename(f.path)), ['b.png', 'c.png', 'a.png']);
+            assert.strictEqual(groups[0].exact, false);
+        });
+
+        test('flags exact matches and breaks ties by file size', () => {
+            const groups = DuplicateService.group([
+                image('small.webp', 'abcdef0123456789', 100, 500),
+                image('large.png', 'abcdef0123456789', 100, 5000)
+            ], 0);
+
+            assert.strictEqual(groups.length, 1);
+            assert.strictEqual(groups[0].exact, true);
+            assert.strictEqual(path.basename(groups[0].files[0].path), 'large.png');
+        });
+
+        test('orders groups by size', () => {
+            const groups = DuplicateService.group([
+                image('a1', '0000000000000000', 10), image('a2', '0000000000000000', 10),
+                image('b1', 'ffffffffffffffff', 10), image('b2', 'ffffffffffffffff', 10), image('b3', 'ffffffffffffffff', 10)
+            ], 0);
+            assert.deepStrictEqual(groups.map(g => g.files.length), [3, 2]);
+        });
+    });
+
+    suite('hashFile and findMatches', () => {
+        let dir: string;
+
+        setup(() => {
+            dir = createScratchDir('duplicates');
+        });
+
+        teardown(() => {
+            removeScratchDir(dir);
+        });
+
+        test('finds an indexed twin and forgets removed files', async () => {
+            const original = path.join(dir, 'hero.png');
+            const twin = path.join(dir, 'hero-copy.jpg');
+            await writeImage(original, photo);
+            await writeImage(twin, { ...photo, format: 'jpeg' });
+            await writeImage(path.join(dir, 'other.png'), { ...photo, pattern: 'noise' });
+
+            await DuplicateService.hashFile(original);
+            await DuplicateService.hashFile(path.join(dir, 'other.png'));
+            const image = await DuplicateService.hashFile(twin);
+            assert.deepStrictEqual([image?.width, image?.height], [120, 90]);
+            assert.deepStrictEqual(DuplicateService.findMatches(image!).map(match => match.path), [original]);
+
+            DuplicateService.forget(original);
+            assert.deepStrictEqual(DuplicateService.findMatches(image!), []);
+            [twin, path.join(dir, 'other.png')].forEach(file => DuplicateService.forget(file));
+        });
+
+        test('reports rotated images with their displayed size', async () => {
+            const rotated = path.join(dir, 'portrait.jpg');
+            const buffer = await sharp(await createImage(photo)).withMetadata({ orientation: 6 }).jpeg().toBuffer();
+            fs.writeFileSync(rotated, buffer);
+
+            const image = await DuplicateService.hashFile(rotated);
+            assert.deepStrictEqual([image?.width, image?.height], [90, 120]);
+            DuplicateService.forget(rotated);
+        });
+
+        test('returns undefined for unreadable files', async () => {
+            assert.strictEqual(await DuplicateService.hashFile(path.join(dir, 'missing.png')), undefined);
+        });
+    });
+});
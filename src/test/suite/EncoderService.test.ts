@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import sharp from 'sharp';
+import { EncoderService, parseByteSize } from '../../services/EncoderService';
+import { ImageOptions } from '../../services/ConfigService';
+import { createImage, createImageWithExif } from '../helpers';
+
+suite('EncoderService', () => {
+    const options: ImageOptions = { format: 'webp', quality: 80 };
+
+    test('parseByteSize', () => {
+        assert.strictEqual(parseByteSize(1500), 1500);
+        assert.strictEqual(parseByteSize('150KB'), 150 * 1024);
+        assert.strictEqual(parseByteSize('1.5MB'), 1.5 * 1024 * 1024);
+        assert.strictEqual(parseByteSize('lots'), undefined);
+    });
+
+    suite('size guard', () => {
+        test('keep-smaller (default) needs a smaller output', () => {
+            assert.strictEqual(EncoderService.isWorthConverting(900, 1000, options), true);
+            assert.strictEqual(EncoderService.isWorthConverting(1000, 1000, options), false);
+            assert.strictEqual(EncoderService.isWorthConverting(1100, 1000, options), false);
+        });
+
+        test('minSavings raises the bar', () => {
+            const strict = { ...options, minSavings: 20 };
+            assert.strictEqual(EncoderService.isWorthConverting(850, 1000, strict), false);
+            assert.strictEqual(EncoderService.isWorthConverting(800, 1000, strict), true);
+        });
+
+        test('always-convert and watermarks always convert', () => {
+            assert.strictEqual(EncoderService.isWorthConverting(2000, 1000, { ...options, sizePolicy: 'always-convert' }), true);
+            assert.strictEqual(EncoderService.isWorthConverting(2000, 1000, { ...options, watermark: { text: '©' } }), true);
+        });
+
+        test('a source over maxFileSize is never kept when downscaling to fit', () => {
+            const fit: ImageOptions = { ...options, oversizePolicy: 'downscale-to-fit', maxFileSize: 500 };
+            assert.strictEqual(EncoderService.isWorthConverting(1100, 1000, fit), true);
+            assert.strictEqual(EncoderService.isWorthConverting(1100, 1000, { ...fit, maxFileSize: 5000 }), false);
+        });
+
+        test('encode returns the source when the output is larger', async () => {
+            // A heavily compressed JPEG re-encoded at quality 100 only grows
+            const input = await createImage({ width: 96, height: 96, pattern: 'noise', format: 'jpeg', quality: 20 });
+            const result = await EncoderService.encode(input, { format: 'webp', quality: 100 }, 'test.jpg');
+            const fullSize = result.outputs.find(o => o.width === undefined)!;
+            assert.ok(fullSize.size > input.length);
+            assert.ok(result.keptSource?.equals(input), 'expected the unchanged source');
+            assert.strictEqual(result.sourceSize, input.length);
+        });
+
+        test('encode keeps no source when the output is smaller', async () => {
+            const input = await createImage({ width: 96, height: 96, format: 'png' });
+            const result = await EncoderService.encode(input, options, 'test.png');
+            assert.strictEqual(result.keptSource, undefined);
+            assert.strictEqual(result.format, 'webp');
+        });
+    });
+
+    suite('sanitizeSource', () => {
+        test('ships files without metadata as they are', async () => {
+            const input = await createImage({ width: 32, height: 32, format: 'png' });
+            assert.strictEqual(await EncoderService.sanitizeSource(input, options, 80), input);
+        });
+
+        test("ships the raw bytes for metadata 'keep'", async () => {
+            const input = await createImageWithExif({ width: 32, height: 32 });
+            assert.strictEqual(await EncoderService.sanitizeSource(input, { ...options, metadata: 'keep' }, 80), input);
+        });
+
+        test('strips EXIF from a kept source but keeps it upright', async () => {
+            const input = await createImageWithExif({ width: 32, height: 32 });
+            const sanitized = await EncoderService.sanitizeSource(input, options, 80);
+            assert.ok(sanitized.length < input.length);
+            const metadata = await sharp(sanitized).metadata();
+            assert.strictEqual(metadata.orientation, 6);
+            assert.ok(!metadata.exif || metadata.exif.length < 64);
+        });
+    });
+});
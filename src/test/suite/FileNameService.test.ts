@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileNameService } from '../../services/FileNameService';
+import { ConverterService, ConversionOptions } from '../../services/ConverterService';
+import { createImage, createScratchDir, removeScratchDir, writeImage } from '../helpers';
+
+suite('FileNameService', () => {
+    const buffer = Buffer.from('output bytes');
+    const sha = crypto.createHash('sha256').update(buffer).digest('hex');
+
+    test('renders every token and appends the extension', async () => {
+        const context = { name: 'Hero Image', format: 'webp', buffer, width: 640, date: new Date(2026, 0, 5) };
+        assert.strictEqual(await FileNameService.render('{name}', context), 'Hero Image.webp');
+        assert.strictEqual(await FileNameService.render('{slug}-{width}w', context), 'hero-image-640w.webp');
+        assert.strictEqual(await FileNameService.render('{slug}.{hash}', context), `hero-image.${sha.slice(0, 8)}.webp`);
+        assert.strictEqual(await FileNameService.render('{hash:12}', context), `${sha.slice(0, 12)}.webp`);
+        assert.strictEqual(await FileNameService.render('{date}_{format}', context), '2026-01-05_webp.webp');
+    });
+
+    test('reads {width} from the image when it is not given', async () => {
+        const image = await createImage({ width: 48, height: 16 });
+        assert.strictEqual(await FileNameService.render('{slug}-{width}', { name: 'logo', format: 'png', buffer: image }), 'logo-48.png');
+    });
+
+    test('validate', () => {
+        assert.strictEqual(FileNameService.validate('{slug}.{hash:8}'), undefined);
+        assert.strictEqual(FileNameService.validate('  '), 'must not be empty');
+        assert.strictEqual(FileNameService.validate('images/{name}'), 'must be a file name, not a path');
+        assert.match(FileNameService.validate('{title}')!, /unknown token \{title\}/);
+        assert.match(FileNameService.validate('{hash:0}')!, /\{hash:0\} is not valid/);
+        assert.match(FileNameService.validate('{hash:65}')!, /\{hash:65\} is not valid/);
+        assert.match(FileNameService.validate('{name:4}')!, /\{name:4\} is not valid/);
+    });
+
+    test('slugify', () => {
+        assert.strictEqual(FileNameService.slugify('Screenshot 2026-10-19 at 10.42.13'), 'screenshot-2026-10-19-at-10-42-13');
+        assert.strictEqual(FileNameService.slugify('Crème Brûlée'), 'creme-brulee');
+        assert.strictEqual(FileNameService.slugify('--Hello__World--'), 'hello-world');
+        assert.strictEqual(FileNameService.slugify('日本'), 'image');
+    });
+
+    suite('collisions', () => {
+        let dir: string;
+        let source: string;
+        let outputDirectory: string;
+        let options: ConversionOptions;
+
+        setup(async () => {
+            dir = createScratchDir('names');
+            source = path.join(dir, 'hero.png');
+            outputDirectory = path.join(dir, 'out');
+            options = { format: 'webp', quality: 80, widths: [32], storageMode: 'separate-output', outputDirectory, quiet: true };
+            await writeImage(source, { width: 96, height: 64 });
+        });
+
+        teardown(() => {
+            removeScratchDir(dir);
+        });
+
+        const outputs = () => fs.readdirSync(outputDirectory).sort();
+
+        test('one suffix covers the full-size output and its variants', async () => {
+            assert.strictEqual(await ConverterService.convertFile(source, options), true);
+            assert.strictEqual(await ConverterService.convertFile(source, options), true);
+            assert.deepStrictEqual(outputs(), ['hero-32w.webp', 'hero.webp', 'hero_copy1-32w.webp', 'hero_copy1.webp']);
+        });
+
+        test('a taken variant name moves the whole set', async () => {
+            await writeImage(path.join(outputDirectory, 'hero-32w.webp'), { width: 8, height: 8, format: 'webp' });
+            assert.strictEqual(await ConverterService.convertFile(source, options), true);
+            assert.deepStrictEqual(outputs(), ['hero-32w.webp', 'hero_copy1-32w.webp', 'hero_copy1.webp']);
+        });
+
+        test("'overwrite' reuses the names", async () => {
+            await ConverterService.convertFile(source, options);
+            assert.strictEqual(await ConverterService.convertFile(source, { ...options, collisionPolicy: 'overwrite' }), true);
+            assert.deepStrictEqual(outputs(), ['hero-32w.webp', 'hero.webp']);
+        });
+
+        test("'fail' writes nothing", async () => {
+            const earlier = await writeImage(path.join(outputDirectory, 'hero.webp'), { width: 8, height: 8, format: 'webp' });
+            assert.strictEqual(await ConverterService.convertFile(source, { ...options, collisionPolicy: 'fail' }), false);
+            assert.deepStrictEqual(outputs(), ['hero.webp']);
+            assert.ok(fs.readFileSync(path.join(outputDirectory, 'hero.webp')).equals(earlier));
+        });
+
+        test('templated names get the suffix before the extension', async () => {
+            const templated = { ...options, fileNameTemplate: '{slug}-{width}' };
+            await ConverterService.convertFile(source, templated);
+            await ConverterService.convertFile(source, templated);
+            assert.deepStrictEqual(outputs(), ['hero-32.webp', 'hero-32_copy1.webp', 'hero-96.webp', 'hero-96_copy1.webp']);
+        });
+    });
+});
@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConverterService, ConversionOptions } from '../../services/ConverterService';
+import { HistoryEntry, HistoryService } from '../../services/HistoryService';
+import { createScratchDir, removeScratchDir, writeImage } from '../helpers';
+
+suite('HistoryService', () => {
+    let dir: string;
+
+    setup(() => {
+        dir = createScratchDir('history');
+    });
+
+    teardown(() => {
+        removeScratchDir(dir);
+    });
+
+    const options: ConversionOptions = { format: 'webp', quality: 80, storageMode: 'in-place', quiet: true };
+
+    const lastEntry = (sourcePath: string): HistoryEntry | undefined =>
+        [...HistoryService.read()].reverse().find(entry => entry.sourcePath === sourcePath);
+
+    const convert = async (sourcePath: string, conversion: ConversionOptions): Promise<HistoryEntry> => {
+        assert.strictEqual(await ConverterService.convertFile(sourcePath, conversion), true);
+        const entry = lastEntry(sourcePath);
+        assert.ok(entry, 'expected a history entry');
+        return entry;
+    };
+
+    test('restores a deleted original from the stash', async () => {
+        const source = path.join(dir, 'hero.png');
+        const bytes = await writeImage(source, { width: 96, height: 96 });
+        const entry = await convert(source, options);
+        assert.strictEqual(entry.original.action, 'deleted');
+        assert.ok(!fs.existsSync(source));
+
+        await HistoryService.restore(entry.id);
+        assert.ok(fs.readFileSync(source).equals(bytes));
+        assert.ok(!fs.existsSync(path.join(dir, 'hero.webp')));
+        assert.ok(lastEntry(source)?.restoredAt);
+    });
+
+    test('restores an original optimized in place', async () => {
+        const source = path.join(dir, 'photo.jpg');
+        const bytes = await writeImage(source, { width: 96, height: 96, format: 'jpeg', quality: 100 });
+        const entry = await convert(source, { ...options, format: 'jpeg', quality: 50 });
+        assert.strictEqual(entry.original.action, 'replaced');
+        assert.ok(!fs.readFileSync(source).equals(bytes));
+
+        await HistoryService.restore(entry.id);
+        assert.ok(fs.readFileSync(source).equals(bytes));
+    });
+
+    test('moves an original back from originalDirectory', async () => {
+        const source = path.join(dir, 'hero.png');
+        const bytes = await writeImage(source, { width: 96, height: 96 });
+        const originalDirectory = path.join(dir, 'originals');
+        const entry = await convert(source, { ...options, storageMode: 'separate-original', originalDirectory });
+        assert.strictEqual(entry.original.movedTo, path.join(originalDirectory, 'hero.png'));
+
+        await HistoryService.restore(entry.id);
+        assert.ok(fs.readFileSync(source).equals(bytes));
+        assert.ok(!fs.existsSync(entry.original.movedTo!));
+        assert.ok(!fs.existsSync(path.join(dir, 'hero.webp')));
+    });
+
+    test('brings back a file the conversion overwrote', async () => {
+        const source = path.join(dir, 'hero.png');
+        await writeImage(source, { width: 96, height: 96 });
+        const outputDirectory = path.join(dir, 'out');
+        const earlier = await writeImage(path.join(outputDirectory, 'hero.webp'), { width: 16, height: 16, format: 'webp' });
+
+        const entry = await convert(source, { ...options, storageMode: 'separate-output', outputDirectory, collisionPolicy: 'overwrite' });
+        assert.strictEqual(entry.original.action, 'kept');
+        assert.strictEqual(entry.overwritten?.length, 1);
+
+        await HistoryService.restore(entry.id);
+        assert.ok(fs.readFileSync(path.join(outputDirectory, 'hero.webp')).equals(earlier));
+        assert.ok(fs.existsSync(source));
+    });
+
+    test('removes the variants of a source kept by the size guard', async () => {
+        // A heavily compressed JPEG only grows at quality 100, so just the variant is written
+        const source = path.join(dir, 'photo.jpg');
+        const bytes = await writeImage(source, { width: 96, height: 96, pattern: 'noise', format: 'jpeg', quality: 20 });
+        const entry = await convert(source, { ...options, quality: 100, widths: [48] });
+        assert.strictEqual(entry.original.action, 'kept');
+        assert.deepStrictEqual(entry.outputPaths, [path.join(dir, 'photo-48w.webp')]);
+
+        await HistoryService.restore(entry.id);
+        assert.ok(!fs.existsSync(path.join(dir, 'photo-48w.webp')));
+        assert.ok(fs.readFileSync(source).equals(bytes));
+    });
+
+    test('leaves everything in place when the original is gone', async () => {
+        const source = path.join(dir, 'hero.png');
+        await writeImage(source, { width: 96, height: 96 });
+        const entry = await convert(source, options);
+        fs.rmSync(entry.stashPath!);
+
+        await HistoryService.restore(entry.id);
+        assert.ok(fs.existsSync(path.join(dir, 'hero.webp')));
+        assert.strictEqual(lastEntry(source)?.restoredAt, undefined);
+    });
+
+    test('restores an entry only once', async () => {
+        const source = path.join(dir, 'hero.png');
+        await writeImage(source, { width: 96, height: 96 });
+        const entry = await convert(source, options);
+
+        await HistoryService.restore(entry.id);
+        const restoredAt = lastEntry(source)?.restoredAt;
+        fs.rmSync(source);
+        await HistoryService.restore(entry.id);
+        assert.strictEqual(lastEntry(source)?.restoredAt, restoredAt);
+        assert.ok(!fs.existsSync(source));
+    });
+});
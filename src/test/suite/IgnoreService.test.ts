@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { IgnoreService } from '../../services/IgnoreService';
+
+suite('IgnoreService', () => {
+    const ignored = (patterns: string[], relativePath: string) =>
+        IgnoreService.matches(IgnoreService.compile(patterns), relativePath);
+
+    test('parse drops comments and blank lines', () => {
+        const content = '# vendor code\npublic/vendor/\n\n   \n*.min.png  \r\n\\#hash.png\n!keep.png\n';
+        assert.deepStrictEqual(IgnoreService.parse(content), ['public/vendor/', '*.min.png', '\\#hash.png', '!keep.png']);
+    });
+
+    test('patterns without a slash match at any depth', () => {
+        assert.strictEqual(ignored(['*.min.png'], 'logo.min.png'), true);
+        assert.strictEqual(ignored(['*.min.png'], 'public/img/logo.min.png'), true);
+        assert.strictEqual(ignored(['*.min.png'], 'public/img/logo.png'), false);
+        // A matching folder name ignores everything inside it
+        assert.strictEqual(ignored(['drafts'], 'public/drafts/a/b.png'), true);
+    });
+
+    test('a leading or middle slash anchors to the root', () => {
+        assert.strictEqual(ignored(['/hero.png'], 'hero.png'), true);
+        assert.strictEqual(ignored(['/hero.png'], 'public/hero.png'), false);
+        assert.strictEqual(ignored(['public/vendor'], 'public/vendor/x.png'), true);
+        assert.strictEqual(ignored(['public/vendor'], 'site/public/vendor/x.png'), false);
+    });
+
+    test('a trailing slash matches folders only', () => {
+        assert.strictEqual(ignored(['cache/'], 'public/cache/a.png'), true);
+        assert.strictEqual(ignored(['cache/'], 'public/cache'), false);
+    });
+
+    test('** spans any number of folders', () => {
+        assert.strictEqual(ignored(['public/**/raw/*.png'], 'public/raw/a.png'), true);
+        assert.strictEqual(ignored(['public/**/raw/*.png'], 'public/a/b/raw/a.png'), true);
+        assert.strictEqual(ignored(['public/**/raw/*.png'], 'public/a/raw/deeper/a.png'), false);
+        assert.strictEqual(ignored(['**/tmp'], 'a/b/tmp/x.png'), true);
+        assert.strictEqual(ignored(['public/**'], 'public/a/b.png'), true);
+    });
+
+    test('* and ? stay within one folder', () => {
+        assert.strictEqual(ignored(['public/*.png'], 'public/a.png'), true);
+        assert.strictEqual(ignored(['public/*.png'], 'public/a/b.png'), false);
+        assert.strictEqual(ignored(['icon-?.png'], 'icon-1.png'), true);
+        assert.strictEqual(ignored(['icon-?.png'], 'icon-12.png'), false);
+    });
+
+    test('character classes', () => {
+        assert.strictEqual(ignored(['img[0-9].png'], 'img7.png'), true);
+        assert.strictEqual(ignored(['img[0-9].png'], 'imgx.png'), false);
+        assert.strictEqual(ignored(['img[!0-9].png'], 'imgx.png'), true);
+        assert.strictEqual(ignored(['img[!0-9].png'], 'img7.png'), false);
+    });
+
+    test('negation re-includes, and the last matching pattern wins', () => {
+        assert.strictEqual(ignored(['*.png', '!keep.png'], 'public/keep.png'), false);
+        assert.strictEqual(ignored(['*.png', '!keep.png'], 'public/drop.png'), true);
+        assert.strictEqual(ignored(['!keep.png', '*.png'], 'public/keep.png'), true);
+        assert.strictEqual(ignored(['!keep.png'], 'keep.png'), false);
+    });
+
+    test('escaped ! and # are literal', () => {
+        assert.strictEqual(ignored(['\\!important.png'], 'public/!important.png'), true);
+        assert.strictEqual(ignored(['\\#hash.png'], '#hash.png'), true);
+    });
+
+    test('regex characters in names are literal', () => {
+        assert.strictEqual(ignored(['logo (1).png'], 'logo (1).png'), true);
+        assert.strictEqual(ignored(['a.png'], 'abpng'), false);
+    });
+
+    test('accepts Windows separators and empty input', () => {
+        assert.strictEqual(ignored(['public/vendor/'], 'public\\vendor\\x.png'), true);
+        assert.strictEqual(ignored([], 'a.png'), false);
+        assert.strictEqual(ignored(['*.png'], ''), false);
+        assert.deepStrictEqual(IgnoreService.compile(['/', '!']), []);
+    });
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import sharp from 'sharp';
+import { MetadataService } from '../../services/MetadataService';
+import { createImage, createImageWithExif } from '../helpers';
+
+suite('MetadataService', () => {
+    const spec = { width: 64, height: 48, pattern: 'noise' as const };
+
+    for (const format of ['jpeg', 'png', 'webp'] as const) {
+        test(`strips EXIF from ${format} without touching the pixels`, async () => {
+            const input = await createImageWithExif({ ...spec, format });
+            const stripped = MetadataService.strip(input, format, 6);
+            assert.ok(stripped, 'expected a stripped file');
+            assert.ok(stripped.length < input.length);
+
+            const before = await sharp(input).metadata();
+            const after = await sharp(stripped).metadata();
+            // Only the minimal orientation block is left
+            assert.ok(after.exif && after.exif.length < 64, `EXIF is ${after.exif?.length} bytes`);
+            assert.strictEqual(after.orientation, 6);
+            assert.ok(after.icc?.equals(before.icc!), 'the ICC profile should be kept');
+
+            const [a, b] = await Promise.all([input, stripped].map(buffer => sharp(buffer).raw().toBuffer()));
+            assert.ok(a.equals(b), 'decoded pixels differ');
+        });
+    }
+
+    test('writes no EXIF at all for the default orientation', async () => {
+        const input = await createImageWithExif({ ...spec, format: 'jpeg' }, 1);
+        const stripped = MetadataService.strip(input, 'jpeg', 1)!;
+        assert.strictEqual((await sharp(stripped).metadata()).exif, undefined);
+    });
+
+    test('leaves simple WebP files alone', async () => {
+        const input = await createImage({ ...spec, format: 'webp' });
+        assert.strictEqual(MetadataService.strip(input, 'webp'), input);
+    });
+
+    test('returns undefined for other formats and broken files', async () => {
+        const gif = await createImage({ ...spec, format: 'gif' });
+        assert.strictEqual(MetadataService.strip(gif, 'gif'), undefined);
+
+        const jpeg = await createImageWithExif({ ...spec, format: 'jpeg' });
+        assert.strictEqual(MetadataService.strip(jpeg.subarray(0, 40), 'jpeg'), undefined);
+        assert.strictEqual(MetadataService.strip(Buffer.from('not an image'), 'png'), undefined);
+    });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import sharp from 'sharp';
+import { SimilarityService } from '../../services/SimilarityService';
+import { createImage } from '../helpers';
+
+suite('SimilarityService', () => {
+    const width = 64;
+    const height = 48;
+
+    const luma = (buffer: Buffer) => SimilarityService.toLuma(buffer, width, height);
+
+    test('toLuma returns one byte per pixel at the requested size', async () => {
+        const image = await createImage({ width: 100, height: 80 });
+        const result = await luma(image);
+        assert.strictEqual(result.length, width * height);
+    });
+
+    test('toLuma flattens transparency onto white', async () => {
+        const transparent = await sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+            .png()
+            .toBuffer();
+        const result = await luma(transparent);
+        assert.ok(result.every(value => value === 255));
+    });
+
+    test('identical images score 1', async () => {
+        const reference = await luma(await createImage({ width, height }));
+        assert.strictEqual(SimilarityService.ssim(reference, reference, width, height), 1);
+    });
+
+    test('scores drop with compression and are symmetric', async () => {
+        const source = await createImage({ width, height, pattern: 'noise' });
+        const reference = await luma(source);
+        const light = await luma(await sharp(source).jpeg({ quality: 90 }).toBuffer());
+        const heavy = await luma(await sharp(source).jpeg({ quality: 5 }).toBuffer());
+
+        const lightScore = SimilarityService.ssim(reference, light, width, height);
+        const heavyScore = SimilarityService.ssim(reference, heavy, width, height);
+        assert.ok(lightScore < 1, `quality 90 scored ${lightScore}`);
+        assert.ok(heavyScore < lightScore, `quality 5 (${heavyScore}) should score below quality 90 (${lightScore})`);
+        assert.strictEqual(SimilarityService.ssim(heavy, reference, width, height), heavyScore);
+    });
+
+    test('unrelated images score low', async () => {
+        const a = await luma(await createImage({ width, height, pattern: 'noise', seed: 1 }));
+        const b = await luma(await createImage({ width, height, pattern: 'noise', seed: 2 }));
+        assert.ok(SimilarityService.ssim(a, b, width, height) < 0.2);
+    });
+
+    test('images smaller than one window count as identical', () => {
+        const a = Buffer.alloc(4 * 4, 0);
+        const b = Buffer.alloc(4 * 4, 255);
+        assert.strictEqual(SimilarityService.ssim(a, b, 4, 4), 1);
+    });
+});
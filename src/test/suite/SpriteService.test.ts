@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { SpriteService } from '../../services/SpriteService';
+import { createScratchDir, removeScratchDir, writeImage } from '../helpers';
+
+interface SpriteMap {
+    image: string;
+    width: number;
+    height: number;
+    sprites: Record<string, { x: number; y: number; width: number; height: number }>;
+}
+
+suite('SpriteService', () => {
+    let dir: string;
+    let icons: string;
+
+    setup(() => {
+        dir = createScratchDir('sprites');
+        icons = path.join(dir, 'icons');
+    });
+
+    teardown(() => {
+        removeScratchDir(dir);
+    });
+
+    const sizes: Array<[string, number, number]> = [
+        ['home', 32, 32], ['search', 24, 40], ['banner', 120, 20], ['dot', 8, 8], ['wide', 64, 16], ['tall', 16, 64], ['user', 32, 28]
+    ];
+
+    const writeIcons = async () => {
+        for (const [i, [name, width, height]] of sizes.entries()) {
+            await writeImage(path.join(icons, `${name}.png`), { width, height, pattern: 'flat', seed: i + 1 });
+        }
+    };
+
+    const readMap = (jsonPath: string): SpriteMap => JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+
+    test('packs every image without overlaps, padding included', async () => {
+        await writeIcons();
+        const padding = 3;
+        const result = await SpriteService.generate(icons, { padding });
+        const map = readMap(result.jsonPath);
+        const sprites = Object.values(map.sprites);
+
+        assert.strictEqual(result.count, sizes.length);
+        assert.strictEqual(sprites.length, sizes.length);
+        for (const [name, width, height] of sizes) {
+            assert.strictEqual(map.sprites[name].width, width);
+            assert.strictEqual(map.sprites[name].height, height);
+        }
+
+        for (const sprite of sprites) {
+            assert.ok(sprite.x >= 0 && sprite.y >= 0);
+            assert.ok(sprite.x + sprite.width <= map.width && sprite.y + sprite.height <= map.height, 'sprite out of bounds');
+        }
+        for (const [i, a] of sprites.entries()) {
+            for (const b of sprites.slice(i + 1)) {
+                const apart = a.x + a.width + padding <= b.x || b.x + b.width + padding <= a.x ||
+                    a.y + a.height + padding <= b.y || b.y + b.height + padding <= a.y;
+                assert.ok(apart, `${JSON.stringify(a)} and ${JSON.stringify(b)} are closer than the padding`);
+            }
+        }
+
+        // Shelves are sorted by height: the tallest sprite opens the first one
+        assert.deepStrictEqual([map.sprites.tall.x, map.sprites.tall.y], [0, 0]);
+    });
+
+    test('writes the atlas, JSON and CSS next to the folder', async () => {
+        await writeIcons();
+        const result = await SpriteService.generate(icons);
+
+        assert.strictEqual(result.atlasPath, path.join(dir, 'icons.png'));
+        const map = readMap(result.jsonPath);
+        assert.strictEqual(map.image, 'icons.png');
+
+        const metadata = await sharp(result.atlasPath).metadata();
+        assert.deepStrictEqual([metadata.width, metadata.height], [map.width, map.height]);
+
+        // Each sprite's pixels land where the map says
+        const { x, y } = map.sprites.home;
+        const [pixel, source] = await Promise.all([
+            sharp(result.atlasPath).extract({ left: x + 1, top: y + 1, width: 1, height: 1 }).removeAlpha().raw().toBuffer(),
+            sharp(path.join(icons, 'home.png')).extract({ left: 1, top: 1, width: 1, height: 1 }).raw().toBuffer()
+        ]);
+        assert.ok(pixel.equals(source));
+
+        const css = fs.readFileSync(result.cssPath, 'utf8');
+        assert.ok(css.includes('.icons { display: inline-block; background-image: url("icons.png");'));
+        assert.ok(css.includes(`.icons-home { width: 32px; height: 32px; background-position: ${-x}px ${-y}px; }`));
+    });
+
+    test('honors output, format and className', async () => {
+        await writeIcons();
+        const result = await SpriteService.generate(icons, { output: path.join(dir, 'dist', 'sheet'), format: 'webp', className: 'ico' });
+
+        assert.strictEqual(result.atlasPath, path.join(dir, 'dist', 'sheet.webp'));
+        assert.strictEqual((await sharp(result.atlasPath).metadata()).format, 'webp');
+        assert.ok(fs.readFileSync(result.cssPath, 'utf8').includes('.ico-home {'));
+    });
+
+    test('falls back to the full maxSize width before giving up', async () => {
+        for (let i = 0; i < 3; i++) {
+            await writeImage(path.join(icons, `tile${i}.png`), { width: 20, height: 20, pattern: 'flat' });
+        }
+        // The square guess (35px) fits one tile per shelf - 60px tall, over maxSize 50
+        const result = await SpriteService.generate(icons, { maxSize: 50, padding: 0 });
+        assert.deepStrictEqual([result.width, result.height], [40, 40]);
+
+        await assert.rejects(SpriteService.generate(icons, { maxSize: 15 }), /larger than maxSize 15px/);
+        for (let i = 3; i < 5; i++) {
+            await writeImage(path.join(icons, `tile${i}.png`), { width: 20, height: 20, pattern: 'flat' });
+        }
+        await assert.rejects(SpriteService.generate(icons, { maxSize: 50, padding: 0 }), /5 images don't fit in a 50×50 atlas/);
+    });
+
+    test('rejects names that map to the same CSS class', async () => {
+        await writeImage(path.join(icons, 'Arrow Left.png'), { width: 8, height: 8 });
+        await writeImage(path.join(icons, 'arrow-left.png'), { width: 8, height: 8 });
+        await assert.rejects(SpriteService.generate(icons), /would both be named "arrow-left"/);
+    });
+
+    test('rejects an empty folder', async () => {
+        fs.mkdirSync(icons);
+        await assert.rejects(SpriteService.generate(icons), /No images found in icons/);
+    });
+});
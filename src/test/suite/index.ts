@@ -0,0 +1,22 @@
+import * as path from 'path';
+import Mocha from 'mocha';
+import { glob } from 'glob';
+
+export async function run(): Promise<void> {
+    // Encoding real images (auto quality, animations) takes a few seconds per test on slow machines
+    const mocha = new Mocha({ ui: 'tdd', color: true, timeout: 30000 });
+    const testsRoot = __dirname;
+
+    const files = await glob('**/*.test.js', { cwd: testsRoot });
+    files.sort().forEach(file => mocha.addFile(path.resolve(testsRoot, file)));
+
+    return new Promise((resolve, reject) => {
+        mocha.run(failures => {
+            if (failures > 0) {
+                reject(new Error(`${failures} tests failed.`));
+            } else {
+                resolve();
+            }
+        });
+    });
+}
@@ -0,0 +1,245 @@
+/**
+ * ComparePanel - Before/after preview webview for manual conversions
+ *
+ * Shows the original and the candidate output (side by side or with a slider overlay),
+ * re-encodes in memory when the quality slider moves, and resolves with the chosen
+ * quality when the user clicks Apply.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import sharp from 'sharp';
+import { ConverterService } from '../services/ConverterService';
+import { ImageOptions } from '../services/ConfigService';
+
+interface ImageInfo {
+    dataUri: string;
+    size: number;
+    width?: number;
+    height?: number;
+}
+
+// Formats the webview can display directly; anything else is previewed as PNG
+const DISPLAYABLE_FORMATS = ['png', 'jpeg', 'webp', 'avif', 'gif'];
+
+export class ComparePanel {
+    /**
+     * Open the preview for one file.
+     * Resolves with the quality to apply, or undefined if the panel was closed.
+     */
+    static async show(filePath: string, options: ImageOptions): Promise<number | undefined> {
+        const fileName = path.basename(filePath);
+        const original = await this.describeOriginal(filePath);
+
+        const panel = vscode.window.createWebviewPanel(
+            'upfly.compare',
+            `Upfly: ${fileName} → ${options.format.toUpperCase()}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        panel.webview.html = this.getHtml(panel.webview, fileName, options.format, original);
+
+        return new Promise(resolve => {
+            let settled = false;
+            let latestRequest = 0;
+
+            const settle = (quality: number | undefined) => {
+                if (settled) return;
+                settled = true;
+                resolve(quality);
+                panel.dispose();
+            };
+
+            const render = async (quality?: number) => {
+                const request = ++latestRequest;
+                try {
+                    // First render honours 'auto'/targetSize; slider moves pin an explicit quality
+                    const renderOptions: ImageOptions = quality === undefined
+                        ? { ...options, widths: undefined, sizePolicy: 'always-convert' }
+                        : { ...options, widths: undefined, sizePolicy: 'always-convert', quality, targetSize: undefined };
+                    const result = await ConverterService.convertToBuffer(filePath, renderOptions);
+                    const output = result.outputs[0];
+                    const metadata = await sharp(output.buffer).metadata();
+
+                    // Drop results that a newer slider position already superseded
+                    if (request !== latestRequest || settled) return;
+                    panel.webview.postMessage({
+                        type: 'candidate',
+                        quality: result.quality,
+                        dataUri: `data:image/${options.format};base64,${output.buffer.toString('base64')}`,
+                        size: output.size,
+                        sizeLabel: ConverterService.formatBytes(output.size),
+                        width: metadata.width,
+                        height: metadata.height,
+                        keptByGuard: !ConverterService.isWorthConverting(output.size, original.size, options)
+                    });
+                } catch (error: any) {
+                    if (request === latestRequest && !settled) {
+                        panel.webview.postMessage({ type: 'error', message: error.message });
+                    }
+                }
+            };
+
+            panel.onDidDispose(() => {
+                if (!settled) {
+                    settled = true;
+                    resolve(undefined);
+                }
+            });
+
+            panel.webview.onDidReceiveMessage(message => {
+                switch (message.type) {
+                    case 'quality':
+                        render(message.quality);
+                        break;
+                    case 'apply':
+                        settle(message.quality);
+                        break;
+                    case 'cancel':
+                        settle(undefined);
+                        break;
+                }
+            });
+
+            render();
+        });
+    }
+
+    private static async describeOriginal(filePath: string): Promise<ImageInfo> {
+        const buffer = await ConverterService.readFile(filePath);
+        const metadata = await sharp(buffer).metadata();
+        const isRotated = (metadata.orientation ?? 1) >= 5;
+
+        // TIFF and friends can't be shown in a webview - preview them as PNG
+        const displayBuffer = metadata.format && DISPLAYABLE_FORMATS.includes(metadata.format)
+            ? buffer
+            : await sharp(buffer).rotate().png().toBuffer();
+        const displayFormat = displayBuffer === buffer ? metadata.format : 'png';
+
+        return {
+            dataUri: `data:image/${displayFormat};base64,${displayBuffer.toString('base64')}`,
+            size: buffer.length,
+            width: isRotated ? metadata.height : metadata.width,
+            height: isRotated ? metadata.width : metadata.height
+        };
+    }
+
+    private static getHtml(webview: vscode.Webview, fileName: string, format: string, original: ImageInfo): string {
+        const nonce = Math.random().toString(36).slice(2) + Date.now().toString(36);
+        const originalLabel = `${ConverterService.formatBytes(original.size)} · ${original.width ?? '?'}×${original.height ?? '?'}`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data: ${webview.cspSource}; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 12px; }
+        .toolbar { display: flex; gap: 16px; align-items: center; flex-wrap: wrap; margin-bottom: 12px; }
+        .toolbar input[type=range] { width: 200px; }
+        button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 6px 14px; cursor: pointer; }
+        button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+        .side { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+        .side figure, .overlay { margin: 0; }
+        figcaption { font-size: 12px; opacity: 0.8; margin: 4px 0; }
+        img { max-width: 100%; display: block; }
+        .overlay { position: relative; display: inline-block; max-width: 100%; }
+        .overlay img.top { position: absolute; top: 0; left: 0; width: 100%; height: 100%; }
+        .overlay input { width: 100%; }
+        .hidden { display: none; }
+        .warning { color: var(--vscode-editorWarning-foreground); }
+        .error { color: var(--vscode-errorForeground); }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <strong>${this.escapeHtml(fileName)} → ${format.toUpperCase()}</strong>
+        <label>Quality <input id="quality" type="range" min="1" max="100" value="80"> <span id="qualityValue">…</span></label>
+        <button id="toggle" class="secondary">Slider view</button>
+        <button id="apply" disabled>Apply</button>
+        <button id="cancel" class="secondary">Cancel</button>
+        <span id="status"></span>
+    </div>
+
+    <div id="sideView" class="side">
+        <figure>
+            <figcaption>Original · ${originalLabel}</figcaption>
+            <img src="${original.dataUri}" alt="Original">
+        </figure>
+        <figure>
+            <figcaption>${format.toUpperCase()} · <span class="candidateLabel">encoding…</span></figcaption>
+            <img class="candidate" alt="Candidate">
+        </figure>
+    </div>
+
+    <div id="overlayView" class="hidden">
+        <figcaption>Original (left) · ${originalLabel} — ${format.toUpperCase()} (right) · <span class="candidateLabel">encoding…</span></figcaption>
+        <div class="overlay">
+            <img src="${original.dataUri}" alt="Original">
+            <img class="candidate top" alt="Candidate">
+        </div>
+        <input id="split" type="range" min="0" max="100" value="50">
+    </div>
+
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const quality = document.getElementById('quality');
+        const qualityValue = document.getElementById('qualityValue');
+        const split = document.getElementById('split');
+        const status = document.getElementById('status');
+        const apply = document.getElementById('apply');
+        let currentQuality;
+        let debounce;
+
+        function setSplit() {
+            document.querySelectorAll('img.top').forEach(img => img.style.clipPath = 'inset(0 0 0 ' + split.value + '%)');
+        }
+
+        quality.addEventListener('input', () => {
+            qualityValue.textContent = quality.value;
+            status.textContent = 'Encoding…';
+            status.className = '';
+            apply.disabled = true;
+            clearTimeout(debounce);
+            debounce = setTimeout(() => vscode.postMessage({ type: 'quality', quality: Number(quality.value) }), 150);
+        });
+        split.addEventListener('input', setSplit);
+        document.getElementById('toggle').addEventListener('click', event => {
+            const side = document.getElementById('sideView');
+            const overlay = document.getElementById('overlayView');
+            const showOverlay = overlay.classList.contains('hidden');
+            overlay.classList.toggle('hidden', !showOverlay);
+            side.classList.toggle('hidden', showOverlay);
+            event.target.textContent = showOverlay ? 'Side by side' : 'Slider view';
+        });
+        apply.addEventListener('click', () => vscode.postMessage({ type: 'apply', quality: currentQuality }));
+        document.getElementById('cancel').addEventListener('click', () => vscode.postMessage({ type: 'cancel' }));
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.type === 'candidate') {
+                currentQuality = message.quality;
+                quality.value = message.quality;
+                qualityValue.textContent = message.quality;
+                document.querySelectorAll('img.candidate').forEach(img => img.src = message.dataUri);
+                document.querySelectorAll('.candidateLabel').forEach(label =>
+                    label.textContent = message.sizeLabel + ' · ' + message.width + '×' + message.height);
+                status.textContent = message.keptByGuard ? 'Not smaller than the original: the size guard will keep the original.' : '';
+                status.className = message.keptByGuard ? 'warning' : '';
+                apply.disabled = false;
+                setSplit();
+            } else if (message.type === 'error') {
+                status.textContent = message.message;
+                status.className = 'error';
+            }
+        });
+        setSplit();
+    </script>
+</body>
+</html>`;
+    }
+
+    private static escapeHtml(value: string): string {
+        return value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * DuplicateTreeProvider - "Upfly Duplicates" explorer view: one node per group, its files below
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DuplicateGroup, HashedImage } from '../services/DuplicateService';
+import { ConverterService } from '../services/ConverterService';
+import { WorkspaceService } from '../services/WorkspaceService';
+
+export type DuplicateNode =
+    | { kind: 'group'; group: DuplicateGroup; index: number }
+    | { kind: 'file'; group: DuplicateGroup; file: HashedImage };
+
+export class DuplicateTreeProvider implements vscode.TreeDataProvider<DuplicateNode>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private groups: DuplicateGroup[] = [];
+
+    setGroups(groups: DuplicateGroup[]): void {
+        this.groups = groups;
+        vscode.commands.executeCommand('setContext', 'upfly.hasDuplicateResults', true);
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Drop deleted files; groups left with a single file are no longer duplicates
+     */
+    removeFiles(filePaths: string[]): void {
+        this.groups = this.groups
+            .map(group => ({ ...group, files: group.files.filter(file => !filePaths.includes(file.path)) }))
+            .filter(group => group.files.length > 1);
+        this._onDidChangeTreeData.fire();
+    }
+
+    getChildren(node?: DuplicateNode): DuplicateNode[] {
+        if (!node) {
+            return this.groups.map((group, index) => ({ kind: 'group', group, index }));
+        }
+        if (node.kind === 'group') {
+            return node.group.files.map(file => ({ kind: 'file', group: node.group, file }));
+        }
+        return [];
+    }
+
+    getTreeItem(node: DuplicateNode): vscode.TreeItem {
+        if (node.kind === 'group') {
+            const first = node.group.files[0];
+            const item = new vscode.TreeItem(
+                `${path.basename(first.path)} · ${node.group.files.length} copies`,
+                vscode.TreeItemCollapsibleState.Expanded
+            );
+            item.description = node.group.exact ? 'identical' : 'similar';
+            item.iconPath = new vscode.ThemeIcon(node.group.exact ? 'copy' : 'files');
+            item.contextValue = 'upfly.duplicateGroup';
+            return item;
+        }
+
+        const { file } = node;
+        const workspaceRoot = WorkspaceService.getRoot(file.path);
+        const item = new vscode.TreeItem(path.basename(file.path));
+        const dimensions = file.width && file.height ? `${file.width}×${file.height} · ` : '';
+        item.description = `${dimensions}${ConverterService.formatBytes(file.size)}`;
+        item.tooltip = workspaceRoot ? path.relative(workspaceRoot, file.path) : file.path;
+        item.resourceUri = vscode.Uri.file(file.path);
+        item.contextValue = 'upfly.duplicateFile';
+        item.command = { command: 'vscode.open', title: 'Open', arguments: [vscode.Uri.file(file.path)] };
+        return item;
+    }
+
+    dispose(): void {
+        this._onDidChangeTreeData.dispose();
+    }
+}
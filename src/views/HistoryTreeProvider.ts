@@ -0,0 +1,54 @@
+/**
+ * HistoryTreeProvider - "Upfly History" explorer view listing journaled conversions, newest first
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { HistoryEntry, HistoryService } from '../services/HistoryService';
+
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryEntry>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private subscription = HistoryService.onDidChange(() => this.refresh());
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getChildren(element?: HistoryEntry): HistoryEntry[] {
+        if (element) return [];
+        return [...HistoryService.read()].reverse();
+    }
+
+    getTreeItem(entry: HistoryEntry): vscode.TreeItem {
+        const item = new vscode.TreeItem(path.basename(entry.sourcePath));
+        const outputs = entry.outputPaths.map(p => path.basename(p)).join(', ') || 'no output';
+        const convertedAt = new Date(entry.convertedAt).toLocaleString();
+
+        item.id = entry.id;
+        item.description = entry.restoredAt ? `restored · ${convertedAt}` : `→ ${outputs} · ${convertedAt}`;
+        item.tooltip = [
+            entry.sourcePath,
+            `Outputs: ${outputs}`,
+            `Original: ${entry.original.action}${entry.original.movedTo ? ` to ${entry.original.movedTo}` : ''}`,
+            entry.quality !== undefined ? `Quality ${entry.quality}${entry.ssim !== undefined ? `, SSIM ${entry.ssim.toFixed(3)}` : ''}` : '',
+            entry.stashPath ? 'Original stashed for restore' : 'No stash (retention expired or disabled)',
+            entry.restoredAt ? `Restored ${new Date(entry.restoredAt).toLocaleString()}` : ''
+        ].filter(Boolean).join('\n');
+        item.iconPath = new vscode.ThemeIcon(entry.restoredAt ? 'discard' : 'file-media');
+        // Only live entries get the inline restore action
+        item.contextValue = entry.restoredAt ? 'upfly.historyEntryRestored' : 'upfly.historyEntry';
+
+        const openPath = entry.restoredAt ? entry.sourcePath : entry.outputPaths[0];
+        if (openPath) {
+            item.command = { command: 'vscode.open', title: 'Open', arguments: [vscode.Uri.file(openPath)] };
+        }
+        return item;
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+}
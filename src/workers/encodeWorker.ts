@@ -0,0 +1,59 @@
+/**
+ * Encoder worker - runs EncoderService.encode for EncoderPool, off the extension host's event loop
+ *
+ * Reads the source itself, reports the decode cost from its header and only decodes once the
+ * pool admits it under the memory cap.
+ */
+
+import * as fs from 'fs';
+import { parentPort } from 'worker_threads';
+import sharp from 'sharp';
+import { EncoderService, EncodeResult } from '../services/EncoderService';
+import { EncodeMessage, EncodeRequest, EncodeResponse } from '../services/EncoderPool';
+
+// Encodes waiting for the host's 'start', by request id
+const waiting = new Map<number, () => void>();
+
+parentPort?.on('message', (message: EncodeMessage) => {
+    if (message.type === 'start') {
+        waiting.get(message.id)?.();
+        waiting.delete(message.id);
+    } else {
+        encode(message.request);
+    }
+});
+
+async function encode(request: EncodeRequest): Promise<void> {
+    try {
+        const input = await fs.promises.readFile(request.filePath);
+        const cost = EncoderService.estimateDecodeBytes(await sharp(input).metadata(), request.options);
+        await new Promise<void>(start => {
+            waiting.set(request.id, start);
+            post({ id: request.id, cost });
+        });
+
+        const result = await EncoderService.encode(input, request.options, request.label);
+        post({ id: request.id, result }, getTransferList(result));
+    } catch (error: any) {
+        post({ id: request.id, error: error?.message ?? String(error) });
+    }
+}
+
+function post(response: EncodeResponse, transferList: ArrayBuffer[] = []): void {
+    parentPort?.postMessage(response, transferList);
+}
+
+/**
+ * Hand the encoded buffers over instead of copying them. Only buffers that own their whole
+ * ArrayBuffer can move (a slice of Node's shared pool can't).
+ */
+function getTransferList(result: EncodeResult): ArrayBuffer[] {
+    const buffers = [...result.outputs.map(output => output.buffer), result.keptSource];
+    const transferList = new Set<ArrayBuffer>();
+    for (const buffer of buffers) {
+        if (buffer && buffer.byteOffset === 0 && buffer.byteLength === buffer.buffer.byteLength) {
+            transferList.add(buffer.buffer as ArrayBuffer);
+        }
+    }
+    return [...transferList];
+}